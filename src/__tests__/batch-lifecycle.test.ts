@@ -0,0 +1,171 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    bulk: jest.fn(),
+  },
+}));
+
+describe("BatchProcessor Instances", () => {
+  @OpenSearchIndex({ name: "test_batch_lifecycle" })
+  class Metric extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+  }
+
+  const respond = async ({ body }: any) => ({
+    body: {
+      took: 1,
+      errors: false,
+      items: body
+        .filter((line: any) => line.index)
+        .map((line: any) => ({ index: { ...line.index, status: 201 } })),
+    },
+  });
+  const newClient = () => ({ bulk: jest.fn(respond) } as any);
+  const metrics = (...names: string[]) => names.map((name) => ({ name }));
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  let processors: BatchProcessor[];
+  const create = (...args: ConstructorParameters<typeof BatchProcessor>) => {
+    const processor = new BatchProcessor(...args);
+    processors.push(processor);
+    return processor;
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    processors = [];
+  });
+
+  afterEach(() => {
+    processors.forEach((processor) => processor.destroy());
+  });
+
+  it("should keep separate queues, settings and clients", async () => {
+    const [firstClient, secondClient] = [newClient(), newClient()];
+    const first = create({ client: firstClient, batchSize: 1 });
+    const second = create({ client: secondClient, refresh: "wait_for" });
+
+    const flushed = first.bulkIndex(Metric, metrics("a", "b"));
+    const queued = second.bulkIndex(Metric, metrics("c", "d"));
+    await flushed;
+    await tick();
+
+    expect(firstClient.bulk).toHaveBeenCalledTimes(1);
+    expect(secondClient.bulk).not.toHaveBeenCalled();
+    expect(opensearchClient.bulk).not.toHaveBeenCalled();
+
+    await second.flush();
+    await queued;
+    expect(secondClient.bulk.mock.calls[0][0].refresh).toBe("wait_for");
+  });
+
+  it("should only auto flush once started", async () => {
+    const client = newClient();
+    const processor = create({ client, flushInterval: 10 });
+
+    const pending = processor.bulkIndex(Metric, metrics("a"));
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(client.bulk).not.toHaveBeenCalled();
+
+    processor.start();
+    await pending;
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+  });
+
+  it("should flush pending operations on close", async () => {
+    const client = newClient();
+    const processor = create({ client });
+
+    const pending = processor.bulkIndex(Metric, metrics("a", "b"));
+    await tick();
+    await processor.close();
+
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+    await expect(pending).resolves.toMatchObject({ errors: false });
+    await expect(processor.bulkIndex(Metric, metrics("c"))).rejects.toThrow(
+      "[typensearch] BatchProcessor has been closed"
+    );
+    expect(() => processor.start()).toThrow("has been closed");
+  });
+
+  it("should wait for requests in flight on close", async () => {
+    let release: () => void;
+    const client = newClient();
+    client.bulk.mockImplementationOnce(
+      (params: any) =>
+        new Promise((resolve) => (release = () => resolve(respond(params))))
+    );
+    const processor = create({ client, batchSize: 1 });
+
+    const pending = processor.bulkIndex(Metric, metrics("a", "b"));
+    await tick();
+    let closed = false;
+    const closing = processor.close().then(() => (closed = true));
+    await tick();
+    expect(closed).toBe(false);
+
+    release!();
+    await closing;
+    await expect(pending).resolves.toMatchObject({ errors: false });
+  });
+
+  it("should send pending operations before the process exits", async () => {
+    const listeners = process.listenerCount("beforeExit");
+    const [startedClient, idleClient] = [newClient(), newClient()];
+    const started = create({ client: startedClient });
+    started.start();
+    const idle = create({ client: idleClient });
+
+    const pending = [
+      started.bulkIndex(Metric, metrics("a")),
+      idle.bulkIndex(Metric, metrics("b")),
+    ];
+    await tick();
+    expect(process.listenerCount("beforeExit")).toBe(listeners + 2);
+    process.emit("beforeExit", 0);
+
+    await expect(Promise.all(pending)).resolves.toHaveLength(2);
+    await tick();
+    expect(startedClient.bulk).toHaveBeenCalledTimes(1);
+    expect(idleClient.bulk).toHaveBeenCalledTimes(1);
+    expect(process.listenerCount("beforeExit")).toBe(listeners);
+  });
+
+  it("should close on a shutdown signal", async () => {
+    const client = newClient();
+    const processor = create({ client });
+    // Keeps the re-raised signal from ending the test process
+    const keepAlive = () => undefined;
+    process.on("SIGTERM", keepAlive);
+
+    try {
+      processor.closeOnSignals(["SIGTERM"]);
+      const pending = processor.bulkIndex(Metric, metrics("a"));
+      await tick();
+      process.emit("SIGTERM", "SIGTERM");
+
+      await expect(pending).resolves.toMatchObject({ errors: false });
+      await processor.close();
+      await tick();
+      expect(client.bulk).toHaveBeenCalledTimes(1);
+      expect(process.listenerCount("SIGTERM")).toBe(1);
+    } finally {
+      process.removeListener("SIGTERM", keepAlive);
+    }
+  });
+
+  it("should keep the shared instance separate", async () => {
+    const processor = create({ batchSize: 1 });
+    const shared = BatchProcessor.getInstance();
+
+    processor.destroy();
+    expect(BatchProcessor.getInstance()).toBe(shared);
+    shared.destroy();
+  });
+});
@@ -1,4 +1,4 @@
-import { initialize } from "../client";
+import { initialize, opensearchClient } from "../client";
 import { Field, OpenSearchIndex } from "../decorator";
 import { Model } from "../model";
 import { BatchProcessor } from "../batch";
@@ -58,9 +58,10 @@ jest.mock("../client", () => ({
               _version: 1,
               result: "created",
               status: 200,
-              error: doc.invalidField
-                ? { type: "validation_error", reason: "Invalid field" }
-                : undefined,
+              error:
+                doc.description === "rejected"
+                  ? { type: "mapper_parsing_exception", reason: "Rejected" }
+                  : undefined,
             },
           });
           i++; // Skip the document body
@@ -237,12 +238,54 @@ describe("BatchProcessor", () => {
       },
     ];
 
-    const response = await batchProcessor.bulkIndex(TestModel, docs);
-    expect(response.items).toHaveLength(0); // No immediate response as not all operations are flushed
+    let settled = false;
+    const pending = batchProcessor
+      .bulkIndex(TestModel, docs)
+      .finally(() => (settled = true));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(settled).toBe(false); // Not resolved until all its operations are flushed
 
     const flushResponse = await batchProcessor.flush();
     expect(flushResponse.items).toHaveLength(3);
     expect(flushResponse.errors).toBe(false);
+
+    const response = await pending;
+    expect(response.items).toHaveLength(3);
+  });
+
+  it("should resolve each call with only its own items", async () => {
+    const first = batchProcessor.bulkIndex(TestModel, [
+      { name: "John Doe", age: 25 },
+    ]);
+    const second = batchProcessor.bulkIndex(TestModel, [
+      { name: "Jane Smith", age: 30 },
+      { name: "Bob Johnson", age: 35, description: "rejected" },
+    ]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const flushResponse = await batchProcessor.flush();
+    expect(flushResponse.items).toHaveLength(3);
+
+    const [firstResponse, secondResponse] = await Promise.all([first, second]);
+    expect(firstResponse.errors).toBe(false);
+    expect(firstResponse.items).toHaveLength(1);
+    expect(secondResponse.errors).toBe(true);
+    expect(secondResponse.items.map((item) => item.index?.result)).toEqual([
+      "created",
+      "created",
+    ]);
+    expect(secondResponse.items[1].index?.error).toBeDefined();
+  });
+
+  it("should reject waiting calls when the bulk request fails", async () => {
+    const client = opensearchClient as any;
+    client.bulk.mockRejectedValueOnce(new Error("Connection refused"));
+
+    const pending = batchProcessor.bulkIndex(TestModel, [{ name: "John Doe" }]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await expect(batchProcessor.flush()).rejects.toThrow("Connection refused");
+    await expect(pending).rejects.toThrow("Connection refused");
   });
 
   it("should auto flush after interval", async () => {
@@ -272,9 +315,8 @@ describe("BatchProcessor", () => {
       {
         name: "John Doe",
         age: 25,
-        description: "Software Developer",
-        invalidField: "test", // This should cause an error as it's not in the schema
-      } as any,
+        description: "rejected", // The mocked cluster rejects this document
+      },
     ];
 
     const response = await batchProcessor.bulkIndex(TestModel, docs, {
@@ -285,6 +327,70 @@ describe("BatchProcessor", () => {
     expect(response.items[0].index?.error).toBeDefined();
   });
 
+  it("should prepare documents like Model.index()", async () => {
+    @OpenSearchIndex({ name: "test_batch_prepare" })
+    class Member extends Model {
+      @Field({ type: "keyword", required: true })
+      name: string;
+
+      @Field({ type: "integer", default: 18, min: 0 })
+      age: number;
+
+      @Field({ type: "keyword", validate: (value: string) => value !== "x" })
+      team: string;
+    }
+
+    const client = opensearchClient as any;
+    client.bulk.mockClear();
+
+    const response = await batchProcessor.bulkIndex(
+      Member,
+      [
+        { name: "kim", extra: "dropped" } as any,
+        { age: -1, team: "x" },
+        { name: "lee", age: 40 },
+      ],
+      { refresh: true }
+    );
+
+    // Only valid documents are sent, with defaults applied and unknown fields dropped
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+    expect(client.bulk.mock.calls[0][0].body).toEqual([
+      { index: { _index: "test_batch_prepare" } },
+      { name: "kim", age: 18 },
+      { index: { _index: "test_batch_prepare" } },
+      { name: "lee", age: 40 },
+    ]);
+
+    expect(response.errors).toBe(true);
+    expect(response.items).toHaveLength(3);
+    expect(response.items[0].index?.result).toBe("created");
+    expect(response.items[2].index?.result).toBe("created");
+
+    const error = response.items[1].index!.error!;
+    expect(response.items[1].index!.status).toBe(400);
+    expect(error.type).toBe("validation_exception");
+    expect(error.failures!.map((failure) => failure.path)).toEqual([
+      "name",
+      "age",
+      "team",
+    ]);
+  });
+
+  it("should report invalid documents without waiting for a flush", async () => {
+    const response = await batchProcessor.bulkIndex(TestModel, [
+      { name: "John Doe", age: "25" as any },
+    ]);
+
+    expect(response.errors).toBe(true);
+    expect(response.items[0].index?.error?.reason).toBe(
+      '[typensearch] Validation failed: Field "age" must be an integer'
+    );
+
+    const flushResponse = await batchProcessor.flush();
+    expect(flushResponse.items).toHaveLength(0);
+  });
+
   it("should clear batch operations", async () => {
     const docs = [
       {
@@ -294,9 +400,13 @@ describe("BatchProcessor", () => {
       },
     ];
 
-    await batchProcessor.bulkIndex(TestModel, docs);
+    const pending = batchProcessor.bulkIndex(TestModel, docs);
+    await new Promise((resolve) => setImmediate(resolve));
     batchProcessor.clear();
 
+    await expect(pending).rejects.toThrow(
+      "[typensearch] Queued bulk operations were cleared"
+    );
     const response = await batchProcessor.flush();
     expect(response.items).toHaveLength(0);
     expect(response.errors).toBe(false);
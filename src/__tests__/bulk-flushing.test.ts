@@ -0,0 +1,152 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Bulk Flushing", () => {
+  @OpenSearchIndex({ name: "test_bulk_flushing" })
+  class Log extends Model {
+    @Field({ type: "text" })
+    message: string;
+  }
+
+  const client = opensearchClient as any;
+  let batchProcessor: BatchProcessor;
+
+  // Answers each request with a success item per action line
+  const respond = ({ body }: any) => ({
+    body: {
+      took: 1,
+      errors: false,
+      items: body
+        .filter((line: any) => line.index || line.delete)
+        .map((line: any) =>
+          line.index
+            ? { index: { ...line.index, status: 201 } }
+            : { delete: { ...line.delete, status: 200 } }
+        ),
+    },
+  });
+  // Holds each request until the test releases it
+  const deferRequests = () => {
+    const releases: Array<() => void> = [];
+    client.bulk.mockImplementation(
+      (params: any) =>
+        new Promise((resolve) => releases.push(() => resolve(respond(params))))
+    );
+    return releases;
+  };
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+  const requestBytes = (call: number) =>
+    client.bulk.mock.calls[call][0].body.reduce(
+      (bytes: number, line: any) =>
+        bytes + Buffer.byteLength(JSON.stringify(line)) + 1,
+      0
+    );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.bulk.mockImplementation(async (params: any) => respond(params));
+    batchProcessor = BatchProcessor.getInstance();
+  });
+
+  afterEach(() => {
+    batchProcessor.destroy();
+  });
+
+  it("should flush before a request would exceed the byte limit", async () => {
+    const message = "x".repeat(100);
+    batchProcessor.setMaxBatchBytes(300);
+
+    const response = await Log.bulkIndex(
+      [{ message }, { message }, { message }],
+      { refresh: true }
+    );
+
+    expect(client.bulk).toHaveBeenCalledTimes(3);
+    for (let call = 0; call < 3; call++) {
+      expect(requestBytes(call)).toBeLessThanOrEqual(300);
+    }
+    expect(response.items).toHaveLength(3);
+  });
+
+  it("should flush once the byte limit is reached", async () => {
+    batchProcessor.setMaxBatchBytes(1);
+
+    const pending = Log.bulkDelete(["1"]);
+    await tick();
+
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+    await expect(pending).resolves.toMatchObject({ errors: false });
+  });
+
+  it("should limit the number of bulk requests in flight", async () => {
+    const releases = deferRequests();
+    batchProcessor.setBatchSize(1);
+    batchProcessor.setMaxConcurrentRequests(2);
+
+    const pending = Log.bulkDelete(["1", "2", "3"]);
+    await tick();
+    expect(client.bulk).toHaveBeenCalledTimes(2);
+
+    releases[0]();
+    await tick();
+    expect(client.bulk).toHaveBeenCalledTimes(3);
+
+    releases[1]();
+    releases[2]();
+    const response = await pending;
+    expect(response.items.map((item) => item.delete?._id)).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+  });
+
+  it("should make producers wait while the queue is full", async () => {
+    const releases = deferRequests();
+    batchProcessor.setMaxQueueSize(2);
+
+    let settled = false;
+    const pending = Log.bulkDelete(["1", "2", "3"]).finally(
+      () => (settled = true)
+    );
+    await tick();
+
+    // The full queue is flushed and the third delete waits for room
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+    expect(client.bulk.mock.calls[0][0].body).toHaveLength(2);
+
+    releases[0]();
+    await tick();
+    expect(settled).toBe(false);
+
+    const flushed = batchProcessor.flush();
+    await tick();
+    releases[1]();
+    await flushed;
+    await pending;
+    expect(client.bulk.mock.calls[1][0].body).toEqual([
+      { delete: { _index: "test_bulk_flushing", _id: "3" } },
+    ]);
+  });
+
+  it("should reject invalid limits", () => {
+    expect(() => batchProcessor.setMaxBatchBytes(0)).toThrow(
+      "[typensearch] Max batch bytes must be greater than 0"
+    );
+    expect(() => batchProcessor.setMaxConcurrentRequests(0)).toThrow(
+      "[typensearch] Max concurrent requests must be greater than 0"
+    );
+    expect(() => batchProcessor.setMaxQueueSize(0)).toThrow(
+      "[typensearch] Max queue size must be greater than 0"
+    );
+  });
+});
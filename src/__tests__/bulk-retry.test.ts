@@ -0,0 +1,221 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Bulk Retries", () => {
+  @OpenSearchIndex({ name: "test_bulk_retry" })
+  class Event extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+  }
+
+  const client = opensearchClient as any;
+  let batchProcessor: BatchProcessor;
+
+  const created = (id: string) => ({
+    index: {
+      _index: "test_bulk_retry",
+      _id: id,
+      status: 201,
+      result: "created",
+    },
+  });
+  const failed = (id: string, status: number, type: string) => ({
+    index: {
+      _index: "test_bulk_retry",
+      _id: id,
+      status,
+      error: { type, reason: type },
+    },
+  });
+  const rejected = (id: string) =>
+    failed(id, 429, "es_rejected_execution_exception");
+  const bulkResponse = (...items: any[]) => ({
+    body: { took: 5, errors: true, items },
+  });
+
+  const events = (...ids: string[]) => ids.map((_id) => ({ _id, name: _id }));
+  const sentIds = (call: number) =>
+    client.bulk.mock.calls[call][0].body
+      .filter((line: any) => line.index)
+      .map((line: any) => line.index._id);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    batchProcessor = BatchProcessor.getInstance();
+    batchProcessor.setRetryOptions({
+      maxAttempts: 3,
+      initialDelay: 1,
+      jitter: false,
+    });
+  });
+
+  afterEach(() => {
+    batchProcessor.destroy();
+  });
+
+  it("should retry only the items rejected with a retryable error", async () => {
+    client.bulk
+      .mockResolvedValueOnce(
+        bulkResponse(
+          created("a"),
+          rejected("b"),
+          failed("c", 503, "unavailable")
+        )
+      )
+      .mockResolvedValueOnce(bulkResponse(created("b"), created("c")));
+
+    const response = await Event.bulkIndex(events("a", "b", "c"), {
+      refresh: true,
+    });
+
+    expect(client.bulk).toHaveBeenCalledTimes(2);
+    expect(sentIds(1)).toEqual(["b", "c"]);
+    expect(response.errors).toBe(false);
+    expect(response.failures).toBeUndefined();
+    expect(response.took).toBe(10);
+    expect(response.items.map((item) => item.index?._id)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("should not retry permanent failures", async () => {
+    client.bulk.mockResolvedValueOnce(
+      bulkResponse(
+        failed("a", 400, "mapper_parsing_exception"),
+        failed("b", 409, "version_conflict_engine_exception")
+      )
+    );
+
+    const response = await Event.bulkIndex(events("a", "b"), { refresh: true });
+
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+    expect(response.failures?.retryable).toEqual([]);
+    expect(response.failures?.permanent.map((f) => [f.id, f.status])).toEqual([
+      ["a", 400],
+      ["b", 409],
+    ]);
+  });
+
+  it("should stop after the max attempts and report what is still retryable", async () => {
+    client.bulk
+      .mockResolvedValueOnce(bulkResponse(rejected("a"), created("b")))
+      .mockResolvedValueOnce(bulkResponse(rejected("a")))
+      .mockResolvedValueOnce(bulkResponse(rejected("a")));
+
+    const response = await Event.bulkIndex(events("a", "b"), { refresh: true });
+
+    expect(client.bulk).toHaveBeenCalledTimes(3);
+    expect(response.errors).toBe(true);
+    expect(response.failures).toEqual({
+      retryable: [
+        {
+          operation: "index",
+          index: "test_bulk_retry",
+          id: "a",
+          status: 429,
+          error: {
+            type: "es_rejected_execution_exception",
+            reason: "es_rejected_execution_exception",
+          },
+          attempts: 3,
+        },
+      ],
+      permanent: [],
+    });
+  });
+
+  it("should retry a request rejected with a retryable status", async () => {
+    client.bulk
+      .mockRejectedValueOnce({ statusCode: 429 })
+      .mockResolvedValueOnce(bulkResponse(created("a")));
+
+    const response = await Event.bulkIndex(events("a"), { refresh: true });
+
+    expect(client.bulk).toHaveBeenCalledTimes(2);
+    expect(sentIds(1)).toEqual(["a"]);
+    expect(response.errors).toBe(false);
+
+    client.bulk.mockRejectedValue({ statusCode: 503 });
+    await expect(
+      Event.bulkIndex(events("b"), { refresh: true })
+    ).rejects.toEqual({ statusCode: 503 });
+    expect(client.bulk).toHaveBeenCalledTimes(5);
+  });
+
+  it("should settle items already final when a retry request fails", async () => {
+    const error = new Error("Connection refused");
+    client.bulk
+      .mockResolvedValueOnce(bulkResponse(created("a"), rejected("b")))
+      .mockRejectedValueOnce(error);
+
+    const first = batchProcessor.addOperation(
+      { index: { _index: "test_bulk_retry", _id: "a" } },
+      { name: "a" }
+    );
+    const second = batchProcessor.addOperation(
+      { index: { _index: "test_bulk_retry", _id: "b" } },
+      { name: "b" }
+    );
+    await expect(batchProcessor.flush()).rejects.toBe(error);
+
+    await expect(first).resolves.toMatchObject({
+      item: created("a"),
+      attempts: 1,
+    });
+    await expect(second).rejects.toBe(error);
+  });
+
+  it("should back off exponentially with jitter", async () => {
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+    client.bulk
+      .mockResolvedValueOnce(bulkResponse(rejected("a")))
+      .mockResolvedValueOnce(bulkResponse(rejected("a")))
+      .mockResolvedValueOnce(bulkResponse(rejected("a")))
+      .mockResolvedValueOnce(bulkResponse(created("a")));
+
+    try {
+      batchProcessor.setRetryOptions({
+        maxAttempts: 4,
+        initialDelay: 10,
+        maxDelay: 30,
+        jitter: false,
+      });
+      await Event.bulkIndex(events("a"), { refresh: true });
+      const fixed = setTimeoutSpy.mock.calls.map((call) => call[1]);
+
+      setTimeoutSpy.mockClear();
+      client.bulk
+        .mockResolvedValueOnce(bulkResponse(rejected("a")))
+        .mockResolvedValueOnce(bulkResponse(created("a")));
+      batchProcessor.setRetryOptions({ jitter: true });
+      await Event.bulkIndex(events("a"), { refresh: true });
+      const jittered = setTimeoutSpy.mock.calls.map((call) => call[1]);
+
+      expect(fixed).toEqual([10, 20, 30]);
+      expect(jittered).toEqual([5]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("should reject invalid retry options", () => {
+    expect(() => batchProcessor.setRetryOptions({ maxAttempts: 0 })).toThrow(
+      "[typensearch] Max attempts must be greater than 0"
+    );
+    expect(() => batchProcessor.setRetryOptions({ initialDelay: -1 })).toThrow(
+      "[typensearch] Retry delays must be non-negative"
+    );
+  });
+});
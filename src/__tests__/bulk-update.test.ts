@@ -0,0 +1,212 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Bulk Create and Update", () => {
+  @OpenSearchIndex({
+    name: "test_bulk_update",
+    timestamps: { createdAt: "createdAt", updatedAt: "updatedAt" },
+  })
+  class Product extends Model {
+    @Field({ type: "keyword", required: true })
+    name: string;
+
+    @Field({
+      type: "integer",
+      default: 0,
+      validate: (value: number) => value >= 0,
+    })
+    stock: number;
+
+    @Field({ type: "date" })
+    createdAt: Date;
+
+    @Field({ type: "date" })
+    updatedAt: Date;
+  }
+
+  const client = opensearchClient as any;
+  const now = new Date("2024-01-01T00:00:00.000Z");
+
+  const sentLines = () => client.bulk.mock.calls[0][0].body;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now, doNotFake: ["setImmediate", "nextTick"] });
+    client.bulk.mockImplementation(async ({ body }: any) => ({
+      body: {
+        took: 1,
+        errors: false,
+        items: body
+          .filter((line: any) => line.create || line.update)
+          .map((line: any) =>
+            line.create
+              ? { create: { ...line.create, status: 201, result: "created" } }
+              : { update: { ...line.update, status: 200, result: "updated" } }
+          ),
+      },
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    BatchProcessor.getInstance().destroy();
+  });
+
+  it("should create documents that must not exist yet", async () => {
+    client.bulk.mockResolvedValueOnce({
+      body: {
+        took: 1,
+        errors: true,
+        items: [
+          { create: { _index: "test_bulk_update", _id: "p1", status: 201 } },
+          {
+            create: {
+              _index: "test_bulk_update",
+              _id: "p2",
+              status: 409,
+              error: {
+                type: "version_conflict_engine_exception",
+                reason: "document already exists",
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    const response = await Product.bulkCreate(
+      [
+        { _id: "p1", name: "pen" },
+        { _id: "p2", name: "ink" },
+      ],
+      { refresh: true }
+    );
+
+    expect(sentLines()).toEqual([
+      { create: { _index: "test_bulk_update", _id: "p1" } },
+      { name: "pen", stock: 0, createdAt: now, updatedAt: now },
+      { create: { _index: "test_bulk_update", _id: "p2" } },
+      { name: "ink", stock: 0, createdAt: now, updatedAt: now },
+    ]);
+    expect(response.items[0].create?.status).toBe(201);
+    expect(response.failures?.permanent).toEqual([
+      expect.objectContaining({ operation: "create", id: "p2", status: 409 }),
+    ]);
+  });
+
+  it("should report invalid documents as create items", async () => {
+    const response = await Product.bulkCreate([{ _id: "p1" }], {
+      refresh: true,
+    });
+
+    expect(response.items[0].create?.error?.type).toBe("validation_exception");
+    expect(client.bulk).not.toHaveBeenCalled();
+  });
+
+  it("should send partial, scripted and upserting updates", async () => {
+    const response = await Product.bulkUpdate(
+      [
+        { id: "p1", doc: { stock: 5 }, retryOnConflict: 3 },
+        {
+          id: "p2",
+          script: {
+            source: "ctx._source.stock += params.count",
+            params: { count: 2 },
+          },
+          upsert: { name: "ink", stock: 2 },
+        },
+        { id: "p3", doc: { name: "cap" }, docAsUpsert: true },
+      ],
+      { refresh: true }
+    );
+
+    expect(sentLines()).toEqual([
+      {
+        update: { _index: "test_bulk_update", _id: "p1", retry_on_conflict: 3 },
+      },
+      { doc: { stock: 5, updatedAt: now } },
+      { update: { _index: "test_bulk_update", _id: "p2" } },
+      {
+        script: {
+          source: "ctx._source.stock += params.count",
+          params: { count: 2 },
+        },
+        upsert: { name: "ink", stock: 2, createdAt: now, updatedAt: now },
+      },
+      { update: { _index: "test_bulk_update", _id: "p3" } },
+      { doc: { name: "cap", updatedAt: now }, doc_as_upsert: true },
+    ]);
+    expect(response.items.map((item) => item.update?.result)).toEqual([
+      "updated",
+      "updated",
+      "updated",
+    ]);
+  });
+
+  it("should upsert documents by their _id", async () => {
+    await Product.bulkUpsert([{ _id: "p1", name: "pen" }], { refresh: true });
+
+    expect(sentLines()).toEqual([
+      { update: { _index: "test_bulk_update", _id: "p1" } },
+      {
+        doc: { name: "pen", updatedAt: now },
+        upsert: { name: "pen", stock: 0, createdAt: now, updatedAt: now },
+      },
+    ]);
+  });
+
+  it("should reject invalid updates before queueing", async () => {
+    await expect(Product.bulkUpdate([{ id: "p1" }])).rejects.toThrow(
+      '[typensearch] bulkUpdate: Pass doc or script for document "p1"'
+    );
+    await expect(Product.bulkUpsert([{ name: "pen" }])).rejects.toThrow(
+      "[typensearch] bulkUpsert: Documents need an _id"
+    );
+
+    await BatchProcessor.getInstance().flush();
+    expect(client.bulk).not.toHaveBeenCalled();
+  });
+
+  it("should report invalid updates as update items", async () => {
+    const response = await Product.bulkUpdate(
+      [
+        { id: "p1", doc: { stock: 1 } },
+        { id: "p2", doc: { stock: -1 } },
+      ],
+      { refresh: true }
+    );
+    const upserted = await Product.bulkUpsert([{ _id: "p3", stock: 1 }], {
+      refresh: true,
+    });
+
+    expect(sentLines()).toEqual([
+      { update: { _index: "test_bulk_update", _id: "p1" } },
+      { doc: { stock: 1, updatedAt: now } },
+    ]);
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+    expect(response.items[0].update?.status).toBe(200);
+    expect(response.items[1].update).toMatchObject({
+      _id: "p2",
+      status: 400,
+      error: {
+        type: "validation_exception",
+        failures: [expect.objectContaining({ path: "stock" })],
+      },
+    });
+    expect(upserted.items[0].update?.error?.failures).toEqual([
+      expect.objectContaining({ path: "name", rule: "required" }),
+    ]);
+  });
+});
@@ -1,27 +1,44 @@
-import { QueryCache } from "../cache";
-import { SearchResult } from "../types";
+import { MemoryCacheStore, QueryCache } from "../cache";
+import { CacheStore, SearchResult } from "../types";
 import "jest";
 
 describe("QueryCache", () => {
   let queryCache: QueryCache;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     queryCache = QueryCache.getInstance();
-    queryCache.clear();
+    await queryCache.clear();
   });
 
-  afterAll(() => {
+  afterEach(() => {
+    queryCache.setMaxEntries(Infinity);
+    queryCache.setMaxBytes(Infinity);
+    queryCache.stopCleanup();
+    queryCache.setDefaultTTL(5 * 60 * 1000);
+  });
+
+  afterAll(async () => {
     const instance = QueryCache.getInstance();
-    instance.clear();
+    await instance.clear();
   });
 
-  it("should be a singleton", () => {
+  const result = (value: string): SearchResult<unknown> => ({
+    hits: {
+      total: { value: 1, relation: "eq" },
+      max_score: 1.0,
+      hits: [{ _index: "test", _id: "1", _score: 1.0, _source: { value } }],
+    },
+    took: 1,
+    timed_out: false,
+  });
+
+  it("should be a singleton", async () => {
     const instance1 = QueryCache.getInstance();
     const instance2 = QueryCache.getInstance();
     expect(instance1).toBe(instance2);
   });
 
-  it("should store and retrieve data", () => {
+  it("should store and retrieve data", async () => {
     const key = "test-key";
     const data: SearchResult<unknown> = {
       hits: {
@@ -39,8 +56,8 @@ describe("QueryCache", () => {
       took: 1,
       timed_out: false,
     };
-    queryCache.set(key, data);
-    expect(queryCache.get(key)).toEqual(data);
+    await queryCache.set(key, data);
+    expect(await queryCache.get(key)).toEqual(data);
   });
 
   it("should respect TTL", async () => {
@@ -61,14 +78,14 @@ describe("QueryCache", () => {
       took: 1,
       timed_out: false,
     };
-    queryCache.set(key, data, 100); // 100ms TTL
+    await queryCache.set(key, data, 100); // 100ms TTL
 
-    expect(queryCache.get(key)).toEqual(data);
+    expect(await queryCache.get(key)).toEqual(data);
     await new Promise((resolve) => setTimeout(resolve, 150));
-    expect(queryCache.get(key)).toBeNull();
+    expect(await queryCache.get(key)).toBeNull();
   });
 
-  it("should generate consistent cache keys", () => {
+  it("should generate consistent cache keys", async () => {
     const index = "test-index";
     const query1 = { match: { field: "value" } };
     const query2 = { match: { field: "value" } };
@@ -77,7 +94,7 @@ describe("QueryCache", () => {
     expect(key1).toBe(key2);
   });
 
-  it("should clear all cached data", () => {
+  it("should clear all cached data", async () => {
     const data: SearchResult<unknown> = {
       hits: {
         total: { value: 1, relation: "eq" },
@@ -94,14 +111,14 @@ describe("QueryCache", () => {
       took: 1,
       timed_out: false,
     };
-    queryCache.set("key1", data);
-    queryCache.set("key2", data);
-    queryCache.clear();
-    expect(queryCache.get("key1")).toBeNull();
-    expect(queryCache.get("key2")).toBeNull();
+    await queryCache.set("key1", data);
+    await queryCache.set("key2", data);
+    await queryCache.clear();
+    expect(await queryCache.get("key1")).toBeNull();
+    expect(await queryCache.get("key2")).toBeNull();
   });
 
-  it("should delete specific cache entry", () => {
+  it("should delete specific cache entry", async () => {
     const data: SearchResult<unknown> = {
       hits: {
         total: { value: 1, relation: "eq" },
@@ -118,14 +135,14 @@ describe("QueryCache", () => {
       took: 1,
       timed_out: false,
     };
-    queryCache.set("key1", data);
-    queryCache.set("key2", data);
-    queryCache.delete("key1");
-    expect(queryCache.get("key1")).toBeNull();
-    expect(queryCache.get("key2")).toEqual(data);
+    await queryCache.set("key1", data);
+    await queryCache.set("key2", data);
+    await queryCache.delete("key1");
+    expect(await queryCache.get("key1")).toBeNull();
+    expect(await queryCache.get("key2")).toEqual(data);
   });
 
-  it("should update default TTL", () => {
+  it("should update default TTL", async () => {
     const data: SearchResult<unknown> = {
       hits: {
         total: { value: 1, relation: "eq" },
@@ -144,11 +161,311 @@ describe("QueryCache", () => {
     };
     queryCache.setDefaultTTL(100);
     const key = "ttl-test";
-    queryCache.set(key, data);
+    await queryCache.set(key, data);
+
+    expect(await queryCache.get(key)).toEqual(data);
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(await queryCache.get(key)).toBeNull();
+  });
+
+  it("should evict the least recently used entry beyond maxEntries", async () => {
+    queryCache.setMaxEntries(2);
+    await queryCache.set("a:1", result("one"));
+    await queryCache.set("a:2", result("two"));
+    await queryCache.get("a:1");
+    await queryCache.set("a:3", result("three"));
+
+    expect(await queryCache.get("a:1")).not.toBeNull();
+    expect(await queryCache.get("a:2")).toBeNull();
+    expect(await queryCache.get("a:3")).not.toBeNull();
+    expect(queryCache.getStats().evictions).toBe(1);
+  });
+
+  it("should evict entries beyond maxBytes", async () => {
+    await queryCache.set("a:1", result("one"));
+    const size = queryCache.getStats().bytes;
+    queryCache.setMaxBytes(size * 2);
+    await queryCache.set("a:2", result("two"));
+    await queryCache.set("a:3", result("six"));
+
+    expect(await queryCache.get("a:1")).toBeNull();
+    expect(queryCache.getStats()).toMatchObject({
+      entries: 2,
+      bytes: size * 2,
+    });
+
+    await queryCache.set("a:4", result("x".repeat(size * 2)));
+    expect(await queryCache.get("a:4")).toBeNull();
+    expect(queryCache.getStats().entries).toBe(2);
+  });
+
+  it("should invalidate only the entries of one index", async () => {
+    await queryCache.set(
+      queryCache.generateKey("users", { a: 1 }),
+      result("u1")
+    );
+    await queryCache.set(
+      queryCache.generateKey("users", { a: 2 }),
+      result("u2")
+    );
+    await queryCache.set(
+      queryCache.generateKey("teams", { a: 1 }),
+      result("t1")
+    );
+
+    await queryCache.invalidateIndex("users");
+
+    expect(
+      await queryCache.get(queryCache.generateKey("users", { a: 1 }))
+    ).toBeNull();
+    expect(
+      await queryCache.get(queryCache.generateKey("teams", { a: 1 }))
+    ).not.toBeNull();
+    expect(queryCache.getStats().entries).toBe(1);
+  });
+
+  it("should report hits, misses and size", async () => {
+    await queryCache.set("a:1", result("one"));
+    await queryCache.get("a:1");
+    await queryCache.get("a:1");
+    await queryCache.get("a:missing");
+
+    const stats = queryCache.getStats();
+    expect(stats).toMatchObject({
+      hits: 2,
+      misses: 1,
+      evictions: 0,
+      entries: 1,
+    });
+    expect(stats.bytes).toBeGreaterThan(
+      Buffer.byteLength(JSON.stringify(result("one")))
+    );
+  });
+
+  it("should remove expired entries with a stoppable cleanup timer", async () => {
+    jest.useFakeTimers();
+    try {
+      await queryCache.set("a:1", result("one"), 100);
+      queryCache.startCleanup(1000);
+      jest.advanceTimersByTime(1000);
+      expect(queryCache.getStats().entries).toBe(0);
+
+      await queryCache.set("a:2", result("two"), 100);
+      queryCache.stopCleanup();
+      jest.advanceTimersByTime(1000);
+      expect(queryCache.getStats().entries).toBe(1);
+      expect(jest.getTimerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+// Stand-in for a shared store such as Redis: values are serialized and
+// expiry is handled by the store itself
+class FakeRemoteStore implements CacheStore {
+  entries = new Map<string, { value: string; expiresAt: number }>();
+
+  get = jest.fn(async (key: string) => {
+    const entry = this.entries.get(key);
+    if (!entry || Date.now() > entry.expiresAt) {
+      return undefined;
+    }
+    return JSON.parse(entry.value);
+  });
+
+  set = jest.fn(async (key: string, value: any, ttl: number) => {
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: Date.now() + ttl,
+    });
+  });
+
+  delete = jest.fn(async (key: string) => {
+    this.entries.delete(key);
+  });
+
+  deleteByPrefix = jest.fn(async (prefix: string) => {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  });
+}
+
+describe("QueryCache with a custom store", () => {
+  const queryCache = QueryCache.getInstance();
+  let store: FakeRemoteStore;
+
+  const data: SearchResult<unknown> = {
+    hits: {
+      total: { value: 1, relation: "eq" },
+      max_score: 1.0,
+      hits: [{ _index: "users", _id: "1", _score: 1.0, _source: { a: 1 } }],
+    },
+    took: 1,
+    timed_out: false,
+  };
+
+  beforeEach(async () => {
+    store = new FakeRemoteStore();
+    queryCache.setStore(store);
+    await queryCache.clear();
+  });
+
+  afterAll(() => {
+    queryCache.setStore(new MemoryCacheStore());
+  });
+
+  it("should delegate reads and writes to the store", async () => {
+    const key = queryCache.generateKey("users", { match_all: {} });
+    await queryCache.set(key, data, 1000);
+
+    expect(store.set).toHaveBeenCalledWith(
+      key,
+      { data, expiry: expect.any(Number) },
+      1000
+    );
+    expect(await queryCache.get(key)).toEqual(data);
+    expect(await queryCache.get("users:missing")).toBeNull();
+    expect(queryCache.getStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 0,
+      entries: 0,
+      bytes: 0,
+    });
+  });
+
+  it("should invalidate an index by key prefix", async () => {
+    await queryCache.set("users:1", data);
+    await queryCache.set("teams:1", data);
+
+    await queryCache.invalidateIndex("users");
+
+    expect(store.deleteByPrefix).toHaveBeenLastCalledWith("users:");
+    expect(await queryCache.get("users:1")).toBeNull();
+    expect(await queryCache.get("teams:1")).toEqual(data);
+  });
+
+  it("should clear the store with an empty prefix", async () => {
+    await queryCache.set("users:1", data);
+    await queryCache.clear();
+
+    expect(store.deleteByPrefix).toHaveBeenLastCalledWith("");
+    expect(store.entries.size).toBe(0);
+  });
+
+  it("should reject size limits for stores that do not support them", () => {
+    expect(() => queryCache.setMaxEntries(10)).toThrow(
+      "[typensearch] Cache size limits only apply to MemoryCacheStore"
+    );
+  });
+});
+
+describe("Request coalescing", () => {
+  const queryCache = QueryCache.getInstance();
+  const now = new Date("2024-01-01T00:00:00.000Z").getTime();
+
+  const data = (value: number): SearchResult<unknown> => ({
+    hits: {
+      total: { value: 1, relation: "eq" },
+      max_score: 1.0,
+      hits: [{ _index: "users", _id: "1", _score: 1.0, _source: { value } }],
+    },
+    took: 1,
+    timed_out: false,
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now, doNotFake: ["nextTick", "setImmediate"] });
+    await queryCache.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const deferred = () => {
+    let resolve: (value: SearchResult<unknown>) => void;
+    const promise = new Promise<SearchResult<unknown>>((r) => (resolve = r));
+    return { promise, resolve: resolve! };
+  };
+
+  it("should share one loader call between concurrent fetches", async () => {
+    const pending = deferred();
+    const loader = jest.fn(() => pending.promise);
+
+    const results = Promise.all([
+      queryCache.fetch("users:q", loader),
+      queryCache.fetch("users:q", loader),
+      queryCache.fetch("users:q", loader),
+    ]);
+    await new Promise((resolve) => setImmediate(resolve));
+    pending.resolve(data(1));
+
+    expect(await results).toEqual([data(1), data(1), data(1)]);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(await queryCache.fetch("users:q", loader)).toEqual(data(1));
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache failures", async () => {
+    const loader = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("unavailable"))
+      .mockResolvedValueOnce(data(1));
+
+    await expect(queryCache.fetch("users:q", loader)).rejects.toThrow(
+      "unavailable"
+    );
+    expect(await queryCache.fetch("users:q", loader)).toEqual(data(1));
+  });
+
+  it("should serve stale results while refreshing in the background", async () => {
+    const loader = jest.fn().mockResolvedValueOnce(data(1));
+    const options = { ttl: 1000, staleWhileRevalidate: 5000 };
+    await queryCache.fetch("users:q", loader, options);
+
+    const refresh = deferred();
+    loader.mockReturnValueOnce(refresh.promise);
+    jest.advanceTimersByTime(2000);
+
+    expect(await queryCache.fetch("users:q", loader, options)).toEqual(data(1));
+    expect(await queryCache.fetch("users:q", loader, options)).toEqual(data(1));
+    expect(await queryCache.get("users:q")).toBeNull();
+
+    refresh.resolve(data(2));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(await queryCache.fetch("users:q", loader, options)).toEqual(data(2));
+  });
+
+  it("should reload once the stale window has passed", async () => {
+    const loader = jest
+      .fn()
+      .mockResolvedValueOnce(data(1))
+      .mockResolvedValueOnce(data(2));
+    const options = { ttl: 1000, staleWhileRevalidate: 1000 };
+    await queryCache.fetch("users:q", loader, options);
+
+    jest.advanceTimersByTime(2001);
+
+    expect(await queryCache.fetch("users:q", loader, options)).toEqual(data(2));
+  });
+
+  it("should drop in-flight results when the index is invalidated", async () => {
+    const pending = deferred();
+    const loader = jest.fn(() => pending.promise);
+
+    const result = queryCache.fetch("users:q", loader);
+    await new Promise((resolve) => setImmediate(resolve));
+    await queryCache.invalidateIndex("users");
+    pending.resolve(data(1));
 
-    expect(queryCache.get(key)).toEqual(data);
-    setTimeout(() => {
-      expect(queryCache.get(key)).toBeNull();
-    }, 150);
+    expect(await result).toEqual(data(1));
+    expect(await queryCache.get("users:q")).toBeNull();
   });
 });
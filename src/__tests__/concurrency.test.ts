@@ -0,0 +1,180 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { VersionConflictError } from "../errors";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    get: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const conflictError = () =>
+  Object.assign(new Error("version_conflict_engine_exception"), {
+    statusCode: 409,
+    meta: {
+      body: {
+        error: {
+          type: "version_conflict_engine_exception",
+          reason: "[1]: version conflict",
+        },
+      },
+    },
+  });
+
+describe("Optimistic Concurrency Control", () => {
+  @OpenSearchIndex({ name: "test_concurrency", optimisticConcurrency: true })
+  class Account extends Model {
+    @Field({ type: "keyword" })
+    owner: string;
+
+    @Field({ type: "integer" })
+    balance: number;
+  }
+
+  @OpenSearchIndex({ name: "test_no_concurrency" })
+  class Note extends Model {
+    @Field({ type: "text" })
+    text: string;
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.get.mockImplementation(({ index, id }: any) =>
+      Promise.resolve({
+        body: {
+          _index: index,
+          _id: id,
+          _version: 3,
+          _seq_no: 7,
+          _primary_term: 1,
+          found: true,
+          _source: { owner: "alice", text: "hello", balance: 100 },
+        },
+      })
+    );
+    client.update.mockResolvedValue({
+      body: { result: "updated", _version: 4, _seq_no: 8, _primary_term: 1 },
+    });
+    client.delete.mockResolvedValue({ body: { result: "deleted" } });
+  });
+
+  it("should remember sequence numbers when loading a document", async () => {
+    const account = await Account.get("1");
+
+    expect(account!._seq_no).toBe(7);
+    expect(account!._primary_term).toBe(1);
+    expect(account!._version).toBe(3);
+  });
+
+  it("should send if_seq_no and if_primary_term on save", async () => {
+    const account = await Account.get("1");
+    account!.balance = 150;
+    await account!.save();
+
+    expect(client.update).toHaveBeenCalledWith({
+      index: "test_concurrency",
+      id: "1",
+      body: { doc: { owner: "alice", text: "hello", balance: 150 } },
+      refresh: undefined,
+      if_seq_no: 7,
+      if_primary_term: 1,
+    });
+    expect(account!._seq_no).toBe(8);
+    expect(account!._version).toBe(4);
+  });
+
+  it("should send if_seq_no and if_primary_term on delete", async () => {
+    const account = await Account.get("1");
+    await account!.delete();
+
+    expect(client.delete).toHaveBeenCalledWith({
+      index: "test_concurrency",
+      id: "1",
+      if_seq_no: 7,
+      if_primary_term: 1,
+    });
+  });
+
+  it("should not send sequence numbers unless the index opts in", async () => {
+    const note = await Note.get("1");
+    note!.text = "changed";
+    await note!.save();
+
+    const params = client.update.mock.calls[0][0];
+    expect(params.if_seq_no).toBeUndefined();
+    expect(params.if_primary_term).toBeUndefined();
+  });
+
+  it("should refuse unconditional writes when the index opts in", async () => {
+    const account = Object.assign(new Account(), { _id: "1", balance: 1 });
+
+    await expect(account.save()).rejects.toThrow(
+      '[typensearch] save: Document "1" has no _seq_no and _primary_term'
+    );
+    await expect(account.delete()).rejects.toThrow(
+      '[typensearch] delete: Document "1" has no _seq_no and _primary_term'
+    );
+    expect(client.update).not.toHaveBeenCalled();
+    expect(client.delete).not.toHaveBeenCalled();
+  });
+
+  it("should throw VersionConflictError on 409", async () => {
+    client.update.mockRejectedValueOnce(conflictError());
+    client.delete.mockRejectedValueOnce(conflictError());
+
+    const account = await Account.get("1");
+    await expect(account!.save()).rejects.toBeInstanceOf(VersionConflictError);
+    await expect(account!.delete()).rejects.toThrow(
+      '[typensearch] Version conflict on document "1" in index "test_concurrency": [1]: version conflict'
+    );
+  });
+
+  it("should re-read and re-apply the mutator on conflict", async () => {
+    client.update.mockRejectedValueOnce(conflictError());
+    const mutator = jest.fn((account: Account) => {
+      account.balance += 10;
+    });
+
+    const account = await Account.retryOnConflict("1", mutator);
+
+    expect(mutator).toHaveBeenCalledTimes(2);
+    expect(client.get).toHaveBeenCalledTimes(2);
+    expect(client.update).toHaveBeenCalledTimes(2);
+    expect(account.balance).toBe(110);
+  });
+
+  it("should save conditionally even when the index does not opt in", async () => {
+    client.update.mockRejectedValueOnce(conflictError());
+
+    const note = await Note.retryOnConflict("1", (n) => {
+      n.text = "changed";
+    });
+
+    expect(client.update).toHaveBeenCalledTimes(2);
+    for (const [params] of client.update.mock.calls) {
+      expect(params).toMatchObject({
+        index: "test_no_concurrency",
+        if_seq_no: 7,
+        if_primary_term: 1,
+      });
+    }
+    expect(note.text).toBe("changed");
+  });
+
+  it("should give up after the configured number of retries", async () => {
+    client.update.mockRejectedValue(conflictError());
+
+    await expect(
+      Account.retryOnConflict("1", (a) => void (a.balance += 1), {
+        retries: 2,
+      })
+    ).rejects.toBeInstanceOf(VersionConflictError);
+    expect(client.update).toHaveBeenCalledTimes(3);
+  });
+});
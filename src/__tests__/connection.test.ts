@@ -0,0 +1,160 @@
+import { Client } from "@opensearch-project/opensearch";
+import { Field, OpenSearchIndex, indexMetadataMap } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { QueryCache } from "../cache";
+import {
+  createConnection,
+  getConnection,
+  closeConnection,
+} from "../connection";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    update: jest.fn(),
+    search: jest.fn(),
+    bulk: jest.fn(),
+  },
+}));
+
+const mockClient = (client: any) => {
+  for (const method of ["index", "update", "search", "bulk"]) {
+    jest.spyOn(client, method);
+  }
+  client.index.mockResolvedValue({ body: { _id: "1", result: "created" } });
+  client.update.mockResolvedValue({ body: { result: "updated" } });
+  client.search.mockResolvedValue({
+    body: {
+      took: 1,
+      timed_out: false,
+      hits: { total: { value: 0, relation: "eq" }, max_score: 0, hits: [] },
+    },
+  });
+  client.bulk.mockResolvedValue({
+    body: { took: 1, errors: false, items: [] },
+  });
+  return client;
+};
+
+describe("Connections", () => {
+  const analytics = createConnection("analytics", {
+    node: "http://analytics:9200",
+  });
+
+  @OpenSearchIndex({ name: "test_events", connection: "analytics" })
+  class Event extends Model {
+    @Field({ type: "keyword" })
+    type: string;
+  }
+
+  @OpenSearchIndex({ name: "test_connection_users" })
+  class User extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.resetAllMocks();
+    mockClient(client);
+    mockClient(analytics);
+  });
+
+  afterAll(() => {
+    BatchProcessor.getInstance().destroy();
+  });
+
+  it("should register and look up named connections", () => {
+    expect(analytics).toBeInstanceOf(Client);
+    expect(getConnection("analytics")).toBe(analytics);
+    expect(QueryCache.getInstance().keyPrefix("test_events", analytics)).toBe(
+      "test_events:analytics:"
+    );
+    expect(() =>
+      createConnection("analytics", { node: "http://other:9200" })
+    ).toThrow('[typensearch] Connection "analytics" already exists');
+    expect(() => getConnection("missing")).toThrow(
+      '[typensearch] Connection "missing" has not been created'
+    );
+  });
+
+  it("should send requests for bound models to their connection", async () => {
+    await Event.index({ type: "click" });
+    await Event.query<Event>().term("type", "click").execute();
+
+    expect(analytics.index).toHaveBeenCalledWith(
+      expect.objectContaining({ index: "test_events" })
+    );
+    expect(analytics.search).toHaveBeenCalledTimes(1);
+    expect(client.index).not.toHaveBeenCalled();
+    expect(client.search).not.toHaveBeenCalled();
+  });
+
+  it("should keep other models on the default client", async () => {
+    await User.index({ name: "john" });
+
+    expect(client.index).toHaveBeenCalledTimes(1);
+    expect(analytics.index).not.toHaveBeenCalled();
+  });
+
+  it("should bind a model to a client with withClient", async () => {
+    const replica = mockClient(new Client({ node: "http://replica:9200" }));
+    const ReplicaUser = User.withClient(replica);
+
+    const user = await ReplicaUser.index({ name: "john" });
+    await user.save();
+
+    expect(user).toBeInstanceOf(User);
+    expect(ReplicaUser.name).toBe("User");
+    expect(ReplicaUser.getMapping()).toEqual(User.getMapping());
+    expect(replica.index).toHaveBeenCalledTimes(1);
+    expect(replica.update).toHaveBeenCalledTimes(1);
+    expect(client.index).not.toHaveBeenCalled();
+    expect(client.update).not.toHaveBeenCalled();
+  });
+
+  it("should reuse the bound class for the same client", () => {
+    const replica = new Client({ node: "http://replica:9200" });
+    const models = indexMetadataMap.size;
+    const ReplicaUser = User.withClient(replica);
+
+    expect(User.withClient(replica)).toBe(ReplicaUser);
+    expect(ReplicaUser.withClient(replica)).toBe(ReplicaUser);
+    expect(ReplicaUser.withClient(analytics)).toBe(User.withClient(analytics));
+    expect(indexMetadataMap.get(ReplicaUser)).toBe(indexMetadataMap.get(User));
+    expect(indexMetadataMap.size).toBe(models);
+  });
+
+  it("should send queued bulk operations to each model's connection", async () => {
+    await User.bulkIndex([{ name: "john" }]);
+    await Event.bulkIndex([{ type: "click" }]);
+
+    await BatchProcessor.getInstance().flush();
+
+    expect(client.bulk).toHaveBeenCalledTimes(1);
+    expect(client.bulk.mock.calls[0][0].body[0].index._index).toBe(
+      "test_connection_users"
+    );
+    expect(analytics.bulk).toHaveBeenCalledTimes(1);
+    expect((analytics.bulk as any).mock.calls[0][0].body[0].index._index).toBe(
+      "test_events"
+    );
+  });
+
+  it("should close and forget a connection", async () => {
+    const temporary = createConnection("temporary", {
+      node: "http://temporary:9200",
+    });
+    const close = jest.spyOn(temporary, "close").mockResolvedValue(undefined);
+
+    await closeConnection("temporary");
+
+    expect(close).toHaveBeenCalled();
+    expect(() => getConnection("temporary")).toThrow();
+  });
+});
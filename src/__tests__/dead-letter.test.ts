@@ -0,0 +1,291 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { FileDeadLetterSink, MemoryDeadLetterSink } from "../dead-letter";
+import { createConnection } from "../connection";
+import { DeadLetter } from "../types";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Dead Letters", () => {
+  @OpenSearchIndex({ name: "test_dead_letter" })
+  class Event extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+  }
+
+  const client = opensearchClient as any;
+  let batchProcessor: BatchProcessor;
+
+  const item = (id: string, status = 201, type?: string) => ({
+    index: {
+      _index: "test_dead_letter",
+      _id: id,
+      status,
+      ...(type && { error: { type, reason: `${type} on ${id}` } }),
+    },
+  });
+  const bulkResponse = (...items: any[]) => ({
+    body: { took: 1, errors: items.some((i) => i.index.error), items },
+  });
+  const events = (...ids: string[]) => ids.map((_id) => ({ _id, name: _id }));
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    batchProcessor = BatchProcessor.getInstance();
+    batchProcessor.setRetryOptions({
+      maxAttempts: 2,
+      initialDelay: 1,
+      jitter: false,
+    });
+  });
+
+  afterEach(() => {
+    batchProcessor.destroy();
+  });
+
+  it("should pass permanent and exhausted failures to a callback", async () => {
+    const written: DeadLetter[][] = [];
+    batchProcessor.setDeadLetterSink((letters) => {
+      written.push(letters);
+    });
+    client.bulk
+      .mockResolvedValueOnce(
+        bulkResponse(
+          item("a"),
+          item("b", 400, "mapper_parsing_exception"),
+          item("c", 429, "es_rejected_execution_exception")
+        )
+      )
+      .mockResolvedValueOnce(
+        bulkResponse(item("c", 429, "es_rejected_execution_exception"))
+      );
+
+    await Event.bulkIndex(events("a", "b", "c"), { refresh: true });
+
+    expect(written).toHaveLength(1);
+    expect(written[0]).toEqual([
+      {
+        action: { index: { _index: "test_dead_letter", _id: "b" } },
+        doc: { name: "b" },
+        errorType: "mapper_parsing_exception",
+        reason: "mapper_parsing_exception on b",
+        status: 400,
+        attempts: 1,
+        failedAt: expect.any(String),
+      },
+      expect.objectContaining({
+        action: { index: { _index: "test_dead_letter", _id: "c" } },
+        errorType: "es_rejected_execution_exception",
+        status: 429,
+        attempts: 2,
+      }),
+    ]);
+  });
+
+  it("should write a letter per operation of a request that failed", async () => {
+    const sink = new MemoryDeadLetterSink();
+    batchProcessor.setDeadLetterSink(sink);
+    const error = Object.assign(new Error("Response Error"), {
+      statusCode: 503,
+      meta: {
+        statusCode: 503,
+        body: {
+          error: { type: "unavailable_shards_exception", reason: "no shards" },
+        },
+      },
+    });
+    client.bulk.mockRejectedValue(error);
+
+    await expect(
+      Event.bulkIndex(events("a", "b"), { refresh: true })
+    ).rejects.toBe(error);
+
+    expect(client.bulk).toHaveBeenCalledTimes(2);
+    expect(sink.getLetters()).toEqual(
+      ["a", "b"].map((id) => ({
+        action: { index: { _index: "test_dead_letter", _id: id } },
+        doc: { name: id },
+        errorType: "unavailable_shards_exception",
+        reason: "no shards",
+        status: 503,
+        attempts: 2,
+        failedAt: expect.any(String),
+      }))
+    );
+
+    client.bulk.mockRejectedValueOnce(new Error("Connection refused"));
+    const pending = Event.bulkIndex(events("c"));
+    await new Promise((resolve) => setImmediate(resolve));
+    await batchProcessor.flush().catch(() => undefined);
+    await expect(pending).rejects.toThrow("Connection refused");
+    expect(sink.getLetters()[2]).toMatchObject({
+      errorType: "Error",
+      reason: "Connection refused",
+      attempts: 1,
+    });
+  });
+
+  it("should buffer letters in memory and replay them", async () => {
+    const sink = new MemoryDeadLetterSink();
+    batchProcessor.setDeadLetterSink(sink);
+    client.bulk.mockResolvedValueOnce(
+      bulkResponse(item("a", 400, "mapper_parsing_exception"), item("b"))
+    );
+    await Event.bulkIndex(events("a", "b"), { refresh: true });
+
+    expect(sink.size).toBe(1);
+    client.bulk.mockResolvedValueOnce(bulkResponse(item("a")));
+    const response = await batchProcessor.replayDeadLetters(sink.drain(), {
+      refresh: true,
+    });
+
+    expect(client.bulk.mock.calls[1][0]).toEqual({
+      body: [
+        { index: { _index: "test_dead_letter", _id: "a" } },
+        { name: "a" },
+      ],
+      refresh: true,
+    });
+    expect(response.errors).toBe(false);
+    expect(response.items[0].index?._id).toBe("a");
+    expect(sink.size).toBe(0);
+  });
+
+  it("should replay letters through the client they were sent to", async () => {
+    const replica = createConnection("dead_letter_replica", {
+      node: "http://replica:9200",
+    }) as any;
+    jest
+      .spyOn(replica, "bulk")
+      .mockResolvedValueOnce(
+        bulkResponse(item("a", 400, "mapper_parsing_exception"))
+      );
+    const sink = new MemoryDeadLetterSink();
+    batchProcessor.setDeadLetterSink(sink);
+    await Event.withClient(replica).bulkIndex(events("a"), { refresh: true });
+
+    expect(sink.getLetters()[0].connection).toBe("dead_letter_replica");
+    replica.bulk.mockResolvedValueOnce(bulkResponse(item("a")));
+    await batchProcessor.replayDeadLetters(sink.getLetters());
+    expect(replica.bulk).toHaveBeenCalledTimes(2);
+    expect(client.bulk).not.toHaveBeenCalled();
+
+    const other = {
+      bulk: jest.fn().mockResolvedValue(bulkResponse(item("a"))),
+    };
+    await batchProcessor.replayDeadLetters(sink.drain(), {
+      client: other as any,
+      refresh: true,
+    });
+    expect(other.bulk.mock.calls[0][0]).toEqual({
+      body: [
+        { index: { _index: "test_dead_letter", _id: "a" } },
+        { name: "a" },
+      ],
+      refresh: true,
+    });
+  });
+
+  it("should drop the oldest letters beyond the memory limit", () => {
+    const sink = new MemoryDeadLetterSink(2);
+    const letter = (id: string): DeadLetter => ({
+      action: { delete: { _index: "test_dead_letter", _id: id } },
+      errorType: "x",
+      reason: "x",
+      status: 500,
+      attempts: 1,
+      failedAt: new Date().toISOString(),
+    });
+    sink.write([letter("1"), letter("2")]);
+    sink.write([letter("3")]);
+
+    expect(sink.getLetters().map((l) => l.action.delete?._id)).toEqual([
+      "2",
+      "3",
+    ]);
+  });
+
+  it("should append letters to an NDJSON file", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "typensearch-"));
+    const file = path.join(dir, "dead-letters.ndjson");
+    const sink = new FileDeadLetterSink(file);
+    batchProcessor.setDeadLetterSink(sink);
+    client.bulk
+      .mockResolvedValueOnce(bulkResponse(item("a", 400, "mapper_exception")))
+      .mockResolvedValueOnce(bulkResponse(item("b", 409, "version_conflict")));
+
+    try {
+      await Event.bulkIndex(events("a"), { refresh: true });
+      await Event.bulkIndex(events("b"), { refresh: true });
+
+      const lines = (await fs.readFile(file, "utf8")).trim().split("\n");
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).errorType).toBe("version_conflict");
+
+      const letters = await sink.drain();
+      expect(letters.map((l) => l.action.index?._id)).toEqual(["a", "b"]);
+      expect(await sink.read()).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should keep letters written while the file is drained", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "typensearch-"));
+    const sink = new FileDeadLetterSink(path.join(dir, "dead-letters.ndjson"));
+    const letter = (id: string): DeadLetter => ({
+      action: { delete: { _index: "test_dead_letter", _id: id } },
+      errorType: "x",
+      reason: "x",
+      status: 500,
+      attempts: 1,
+      failedAt: new Date().toISOString(),
+    });
+
+    try {
+      await sink.write([letter("1")]);
+      const drained = sink.drain();
+      const written = sink.write([letter("2")]);
+
+      expect((await drained).map((l) => l.action.delete?._id)).toEqual(["1"]);
+      await written;
+      expect((await sink.read()).map((l) => l.action.delete?._id)).toEqual([
+        "2",
+      ]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should still resolve the call when the sink fails", async () => {
+    const consoleSpy = jest.spyOn(console, "error").mockImplementation();
+    batchProcessor.setDeadLetterSink(() => {
+      throw new Error("disk full");
+    });
+    client.bulk.mockResolvedValueOnce(
+      bulkResponse(item("a", 400, "mapper_parsing_exception"))
+    );
+
+    try {
+      const response = await Event.bulkIndex(events("a"), { refresh: true });
+
+      expect(response.failures?.permanent).toHaveLength(1);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "[typensearch] Failed to write dead letters:",
+        expect.any(Error)
+      );
+    } finally {
+      consoleSpy.mockRestore();
+    }
+  });
+});
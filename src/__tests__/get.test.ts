@@ -0,0 +1,111 @@
+import { Field, OpenSearchIndex, AfterLoad } from "../decorator";
+import { Model } from "../model";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    get: jest.fn(),
+    mget: jest.fn(),
+  },
+}));
+
+describe("Multi-get", () => {
+  @OpenSearchIndex({ name: "test_get" })
+  class User extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+
+    @Field({ type: "keyword" })
+    email: string;
+
+    loaded = false;
+
+    @AfterLoad()
+    markLoaded() {
+      this.loaded = true;
+    }
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.mget.mockImplementation(({ body }: any) =>
+      Promise.resolve({
+        body: {
+          docs: body.docs.map(({ _id }: any) =>
+            _id === "missing"
+              ? { _index: "test_get", _id, found: false }
+              : {
+                  _index: "test_get",
+                  _id,
+                  _version: 1,
+                  _seq_no: 0,
+                  _primary_term: 1,
+                  found: true,
+                  _source: { name: `user ${_id}` },
+                }
+          ),
+        },
+      })
+    );
+  });
+
+  it("should return hydrated instances in the requested order", async () => {
+    const users = await User.getMany(["2", "missing", "1"]);
+
+    expect(users).toHaveLength(3);
+    expect(users[0]).toBeInstanceOf(User);
+    expect(users[0]!._id).toBe("2");
+    expect(users[0]!.name).toBe("user 2");
+    expect(users[0]!._seq_no).toBe(0);
+    expect(users[0]!.loaded).toBe(true);
+    expect(users[1]).toBeNull();
+    expect(users[2]!._id).toBe("1");
+  });
+
+  it("should drop missing documents unless preserving order", async () => {
+    const users = await User.getMany(["1", "missing"], {
+      preserveOrder: false,
+    });
+
+    expect(users.map((user) => user!._id)).toEqual(["1"]);
+  });
+
+  it("should pass routing and source filtering", async () => {
+    await User.getMany(["1"], {
+      routing: "tenant-a",
+      source: { includes: ["name"], excludes: ["email"] },
+    });
+
+    expect(client.mget).toHaveBeenCalledWith({
+      index: "test_get",
+      body: {
+        docs: [
+          {
+            _id: "1",
+            routing: "tenant-a",
+            _source: { includes: ["name"], excludes: ["email"] },
+          },
+        ],
+      },
+    });
+  });
+
+  it("should not call OpenSearch for an empty id list", async () => {
+    expect(await User.getMany([])).toEqual([]);
+    expect(client.mget).not.toHaveBeenCalled();
+  });
+
+  it("should share hydration with get", async () => {
+    client.get.mockResolvedValue({
+      body: { _id: "1", found: true, _source: { name: "user 1" } },
+    });
+
+    const user = await User.get("1");
+
+    expect(user).toBeInstanceOf(User);
+    expect(user!.loaded).toBe(true);
+  });
+});
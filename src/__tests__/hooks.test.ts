@@ -0,0 +1,258 @@
+import {
+  Field,
+  OpenSearchIndex,
+  BeforeIndex,
+  AfterIndex,
+  BeforeSave,
+  AfterSave,
+  BeforeDelete,
+  AfterDelete,
+  BeforeUpdateMany,
+  AfterLoad,
+} from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    get: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    search: jest.fn(),
+    updateByQuery: jest.fn(),
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Lifecycle Hooks", () => {
+  const events: string[] = [];
+
+  @OpenSearchIndex({ name: "test_hooks" })
+  class Article extends Model {
+    @Field({ type: "text" })
+    title: string;
+
+    @Field({ type: "keyword" })
+    slug: string;
+
+    @Field({ type: "keyword" })
+    editedBy: string;
+
+    @Field({ type: "boolean" })
+    locked: boolean;
+
+    @BeforeIndex()
+    async normalizeSlug() {
+      await Promise.resolve();
+      this.slug = this.title.toLowerCase().replace(/\s+/g, "-");
+      events.push("beforeIndex");
+    }
+
+    @BeforeIndex()
+    preventLockedIndex() {
+      return !this.locked;
+    }
+
+    @AfterIndex()
+    indexed() {
+      events.push(`afterIndex:${this._id}`);
+    }
+
+    @BeforeSave()
+    stampEditor() {
+      this.editedBy = "system";
+      events.push("beforeSave");
+    }
+
+    @AfterSave()
+    saved() {
+      events.push("afterSave");
+    }
+
+    @BeforeDelete()
+    preventLockedDelete() {
+      events.push("beforeDelete");
+      return !this.locked;
+    }
+
+    @AfterDelete()
+    deleted() {
+      events.push("afterDelete");
+    }
+
+    @BeforeUpdateMany()
+    stampBulkEditor() {
+      this.editedBy = "bulk";
+    }
+
+    @AfterLoad()
+    loaded() {
+      events.push(`afterLoad:${this._id}`);
+    }
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    events.length = 0;
+    jest.resetAllMocks();
+    client.index.mockResolvedValue({ body: { _id: "1", result: "created" } });
+    client.update.mockResolvedValue({ body: { result: "updated" } });
+    client.delete.mockResolvedValue({ body: { result: "deleted" } });
+    client.updateByQuery.mockResolvedValue({ body: { updated: 2 } });
+    client.get.mockResolvedValue({
+      body: {
+        _id: "1",
+        found: true,
+        _source: { title: "Hello World", slug: "hello-world" },
+      },
+    });
+    client.search.mockResolvedValue({
+      body: {
+        hits: {
+          total: { value: 1, relation: "eq" },
+          max_score: 1,
+          hits: [{ _id: "2", _score: 1, _source: { title: "Found" } }],
+        },
+      },
+    });
+    client.bulk.mockImplementation(({ body }: any) =>
+      Promise.resolve({
+        body: {
+          took: 1,
+          errors: false,
+          items: body
+            .filter((op: any) => op.index)
+            .map((_: any, i: number) => ({
+              index: { _id: `bulk_${i}`, status: 201, result: "created" },
+            })),
+        },
+      })
+    );
+  });
+
+  afterAll(() => {
+    BatchProcessor.getInstance().destroy();
+  });
+
+  it("should run index hooks and send the mutated document", async () => {
+    const article = await Article.index({ title: "Hello World" });
+
+    expect(article.slug).toBe("hello-world");
+    expect(client.index.mock.calls[0][0].body.slug).toBe("hello-world");
+    expect(events).toEqual(["beforeIndex", "afterIndex:1"]);
+  });
+
+  it("should run save hooks around the update", async () => {
+    const article = await Article.get("1");
+    await article!.save();
+
+    expect(client.update.mock.calls[0][0].body.doc.editedBy).toBe("system");
+    expect(events).toEqual(["afterLoad:1", "beforeSave", "afterSave"]);
+  });
+
+  it("should abort the operation when a before hook returns false", async () => {
+    const article = await Article.get("1");
+    article!.locked = true;
+
+    await expect(article!.delete()).rejects.toThrow(
+      '[typensearch] beforeDelete: Operation aborted by hook "preventLockedDelete"'
+    );
+    expect(client.delete).not.toHaveBeenCalled();
+
+    article!.locked = false;
+    await article!.delete();
+    expect(events).toEqual([
+      "afterLoad:1",
+      "beforeDelete",
+      "beforeDelete",
+      "afterDelete",
+    ]);
+  });
+
+  it("should abort the operation when a hook throws", async () => {
+    const article = await Article.get("1");
+    article!.stampEditor = () => {
+      throw new Error("audit service unavailable");
+    };
+
+    await expect(article!.save()).rejects.toThrow("audit service unavailable");
+    expect(client.update).not.toHaveBeenCalled();
+  });
+
+  it("should apply beforeUpdateMany hooks to the updates", async () => {
+    await Article.updateMany({ slug: "hello-world" }, { title: "Renamed" });
+
+    const script = client.updateByQuery.mock.calls[0][0].body.script;
+    expect(script.source).toContain("ctx._source.title = 'Renamed'");
+    expect(script.source).toContain("ctx._source.editedBy = 'bulk'");
+  });
+
+  it("should not send field initializers as updateMany changes", async () => {
+    @OpenSearchIndex({ name: "test_hooks_initializers" })
+    class Ticket extends Model {
+      @Field({ type: "keyword" })
+      status: string = "open";
+
+      @Field({ type: "keyword" })
+      tags: string[] = [];
+
+      @Field({ type: "keyword" })
+      assignee: string;
+    }
+
+    await Ticket.updateMany({ status: "open" }, { assignee: "kim" });
+
+    const script = client.updateByQuery.mock.calls[0][0].body.script;
+    expect(script.source).toBe("ctx._source.assignee = 'kim'");
+  });
+
+  it("should run afterLoad hooks on hydrated search results", async () => {
+    const articles = await Article.query<Article>().find();
+
+    expect(articles[0].title).toBe("Found");
+    expect(events).toEqual(["afterLoad:2"]);
+  });
+
+  it("should run index hooks for bulk indexing", async () => {
+    await Article.bulkIndex([{ title: "First Post" }, { title: "Second" }], {
+      refresh: true,
+    });
+
+    const body = client.bulk.mock.calls[0][0].body;
+    expect(body[1].slug).toBe("first-post");
+    expect(body[3].slug).toBe("second");
+    expect(events).toEqual([
+      "beforeIndex",
+      "beforeIndex",
+      "afterIndex:bulk_0",
+      "afterIndex:bulk_1",
+    ]);
+  });
+
+  it("should report aborted bulk documents per item", async () => {
+    const response = await Article.bulkIndex(
+      [{ title: "First Post" }, { title: "Draft", locked: true }],
+      { refresh: true }
+    );
+
+    const body = client.bulk.mock.calls[0][0].body;
+    expect(body).toHaveLength(2);
+    expect(body[1].slug).toBe("first-post");
+    expect(response.errors).toBe(true);
+    expect(response.items[0].index.status).toBe(201);
+    expect(response.items[1].index).toMatchObject({
+      _index: "test_hooks",
+      status: 400,
+      error: {
+        type: "hook_exception",
+        reason:
+          '[typensearch] beforeIndex: Operation aborted by hook "preventLockedIndex"',
+      },
+    });
+    expect(events).toEqual(["beforeIndex", "beforeIndex", "afterIndex:bulk_0"]);
+  });
+});
@@ -0,0 +1,152 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    createPit: jest.fn(),
+    deletePit: jest.fn(),
+    search: jest.fn(),
+    scroll: jest.fn(),
+    clearScroll: jest.fn(),
+  },
+}));
+
+const TOTAL_DOCS = 5;
+
+const page = (start: number, size: number, extra: Record<string, any> = {}) => {
+  const hits = [];
+  for (let i = start; i < Math.min(start + size, TOTAL_DOCS); i++) {
+    hits.push({
+      _id: `${i}`,
+      _score: null,
+      _source: { name: `user ${i}`, age: 20 + i },
+      _version: 1,
+      _seq_no: i,
+      _primary_term: 1,
+      sort: [20 + i, `${i}`],
+    });
+  }
+  return { body: { hits: { hits }, ...extra } };
+};
+
+describe("Iteration", () => {
+  @OpenSearchIndex({ name: "test_iterate" })
+  class User extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+
+    @Field({ type: "integer" })
+    age: number;
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.createPit.mockResolvedValue({ body: { pit_id: "pit-1" } });
+    client.deletePit.mockResolvedValue({ body: {} });
+    client.clearScroll.mockResolvedValue({ body: {} });
+    client.search.mockImplementation(({ body }: any) => {
+      const start = body.search_after ? Number(body.search_after[1]) + 1 : 0;
+      return Promise.resolve(page(start, body.size, { pit_id: "pit-2" }));
+    });
+  });
+
+  it("should page through all documents with search_after", async () => {
+    const names: string[] = [];
+    for await (const user of User.query<User>()
+      .range("age", { gte: 18 })
+      .sort("age", "asc")
+      .iterate({ batchSize: 2, keepAlive: "30s" })) {
+      expect(user).toBeInstanceOf(User);
+      expect(user._seq_no).toBe(Number(user._id));
+      names.push(user.name);
+    }
+
+    expect(names).toHaveLength(TOTAL_DOCS);
+    expect(client.createPit).toHaveBeenCalledWith({
+      index: "test_iterate",
+      keep_alive: "30s",
+    });
+    expect(client.search).toHaveBeenCalledTimes(3);
+
+    const [first, second] = client.search.mock.calls.map(
+      ([params]: any) => params
+    );
+    expect(first.index).toBeUndefined();
+    expect(first.body).toEqual({
+      query: { range: { age: { gte: 18 } } },
+      version: true,
+      seq_no_primary_term: true,
+      size: 2,
+      sort: [{ age: { order: "asc" } }, { _id: "asc" }],
+      pit: { id: "pit-1", keep_alive: "30s" },
+    });
+    expect(second.body.search_after).toEqual([21, "1"]);
+    expect(second.body.pit.id).toBe("pit-2");
+    expect(client.deletePit).toHaveBeenCalledWith({
+      body: { pit_id: ["pit-2"] },
+    });
+  });
+
+  it("should close the point in time when iteration stops early", async () => {
+    const iterator = User.query<User>().iterate({ batchSize: 2 });
+    const { value: user } = await iterator.next();
+    await iterator.return!();
+
+    expect(user._id).toBe("0");
+    expect(client.search).toHaveBeenCalledTimes(1);
+    expect(client.deletePit).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fall back to scroll when point in time is unavailable", async () => {
+    client.createPit.mockRejectedValue({ statusCode: 400 });
+    client.search.mockResolvedValue(page(0, 2, { _scroll_id: "scroll-1" }));
+    client.scroll
+      .mockResolvedValueOnce(page(2, 2, { _scroll_id: "scroll-2" }))
+      .mockResolvedValueOnce(page(4, 2, { _scroll_id: "scroll-2" }));
+
+    const ids: string[] = [];
+    for await (const user of User.query<User>().iterate({ batchSize: 2 })) {
+      ids.push(user._id!);
+    }
+
+    expect(ids).toEqual(["0", "1", "2", "3", "4"]);
+    expect(client.search.mock.calls[0][0]).toEqual({
+      index: "test_iterate",
+      scroll: "1m",
+      body: {
+        query: { match_all: {} },
+        version: true,
+        seq_no_primary_term: true,
+        size: 2,
+        sort: ["_doc"],
+      },
+    });
+    expect(client.scroll).toHaveBeenCalledWith({
+      scroll_id: "scroll-2",
+      scroll: "1m",
+    });
+    expect(client.clearScroll).toHaveBeenCalledWith({
+      body: { scroll_id: ["scroll-2"] },
+    });
+  });
+
+  it("should not fall back when the pit strategy is required", async () => {
+    client.createPit.mockRejectedValue(new Error("no handler found"));
+
+    const iterator = User.query<User>().iterate({ strategy: "pit" });
+    await expect(iterator.next()).rejects.toThrow("no handler found");
+  });
+
+  it("should expose the documents as an object stream", async () => {
+    const names: string[] = [];
+    for await (const user of User.query<User>().stream({ batchSize: 3 })) {
+      names.push(user.name);
+    }
+
+    expect(names).toEqual(["user 0", "user 1", "user 2", "user 3", "user 4"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { JoinValue } from "../types";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    search: jest.fn(),
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Join Fields", () => {
+  @OpenSearchIndex({ name: "test_join" })
+  class Post extends Model {
+    @Field({ type: "join", relations: { question: ["answer", "comment"] } })
+    relation: JoinValue;
+
+    @Field({ type: "text" })
+    body: string;
+  }
+
+  @OpenSearchIndex({ name: "test_join_single" })
+  class Thread extends Model {
+    @Field({ type: "join", relations: { thread: "reply" } })
+    relation: JoinValue;
+
+    @Field({ type: "text" })
+    body: string;
+  }
+
+  @OpenSearchIndex({ name: "test_join_none" })
+  class Note extends Model {
+    @Field({ type: "text" })
+    body: string;
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.index.mockResolvedValue({ body: { _id: "1", result: "created" } });
+    client.search.mockResolvedValue({
+      body: { hits: { total: { value: 0 }, hits: [] } },
+    });
+    client.bulk.mockResolvedValue({
+      body: { took: 1, errors: false, items: [] },
+    });
+  });
+
+  afterAll(() => {
+    BatchProcessor.getInstance().destroy();
+  });
+
+  it("should emit relations in the mapping", () => {
+    expect(Post.getMapping().properties.relation).toEqual({
+      type: "join",
+      relations: { question: ["answer", "comment"] },
+    });
+  });
+
+  it("should populate the parent relation on index", async () => {
+    await Post.index({ body: "How?" });
+    await Post.bulkIndex([{ body: "Why?" }], { refresh: true });
+
+    expect(client.index.mock.calls[0][0].body.relation).toBe("question");
+    expect(client.bulk.mock.calls[0][0].body[1].relation).toBe("question");
+  });
+
+  it("should index a child routed to its parent", async () => {
+    await Thread.indexChild("t1", { body: "Agreed" });
+
+    expect(client.index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: "test_join_single",
+        routing: "t1",
+        body: { relation: { name: "reply", parent: "t1" }, body: "Agreed" },
+      })
+    );
+  });
+
+  it("should pick the child relation by name", async () => {
+    await Post.indexChild(
+      "q1",
+      { body: "Like this" },
+      { relation: "answer", routing: "root", refresh: true }
+    );
+
+    expect(client.index.mock.calls[0][0]).toMatchObject({
+      routing: "root",
+      refresh: true,
+      body: { relation: { name: "answer", parent: "q1" } },
+    });
+  });
+
+  it("should reject ambiguous, unknown or missing relations", async () => {
+    await expect(Post.indexChild("q1", { body: "?" })).rejects.toThrow(
+      '[typensearch] indexChild: Pass the relation option, one of "answer", "comment"'
+    );
+    await expect(
+      Post.indexChild("q1", { body: "?" }, { relation: "question" })
+    ).rejects.toThrow('Unknown child relation "question"');
+    await expect(Note.indexChild("n1", { body: "?" })).rejects.toThrow(
+      "[typensearch] indexChild: Model has no join field"
+    );
+    expect(client.index).not.toHaveBeenCalled();
+  });
+
+  it("should build parent_id queries and children aggregations", () => {
+    const query = Post.query<Post>()
+      .parentId("answer", "q1")
+      .children("answers", "answer", (a) =>
+        a.subAggs("length", (s) => s.avg("length"))
+      )
+      .children("comments", "comment")
+      .getQuery();
+
+    expect(query.query).toEqual({ parent_id: { type: "answer", id: "q1" } });
+    expect(query.aggs).toEqual({
+      answers: {
+        children: { type: "answer" },
+        aggs: { length: { avg: { field: "length" } } },
+      },
+      comments: { children: { type: "comment" } },
+    });
+  });
+});
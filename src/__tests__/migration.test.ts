@@ -42,6 +42,7 @@ jest.mock("../decorator", () => {
         name: indexName,
         numberOfShards: options?.numberOfShards,
         numberOfReplicas: options?.numberOfReplicas,
+        routingField: options?.routingField,
       });
 
       metadata.set(constructor.prototype.constructor, {
@@ -49,6 +50,7 @@ jest.mock("../decorator", () => {
         name: indexName,
         numberOfShards: options?.numberOfShards,
         numberOfReplicas: options?.numberOfReplicas,
+        routingField: options?.routingField,
       });
     };
   };
@@ -149,6 +151,9 @@ jest.mock("../client", () => {
           .fn()
           .mockResolvedValue({ body: { acknowledged: true } }),
         putAlias: jest.fn().mockResolvedValue({ body: { acknowledged: true } }),
+        updateAliases: jest
+          .fn()
+          .mockResolvedValue({ body: { acknowledged: true } }),
         refresh: jest.fn().mockResolvedValue({ body: { acknowledged: true } }),
       },
       search: jest.fn().mockImplementation(({ index }: { index: string }) => {
@@ -375,6 +380,28 @@ describe("Migration", () => {
       expect(backupData.body.hits.hits[0]._source.name).toBe("Test");
     });
 
+    it("should create the new index with the model's mapping", async () => {
+      @OpenSearchIndex({
+        name: "test_migration_execution",
+        routingField: "name",
+      })
+      class RoutedModel extends Model {
+        @Field({ type: "text", analyzer: "standard", required: true })
+        name: string;
+      }
+
+      const result = await RoutedModel.migrate();
+      expect(result.success).toBe(true);
+
+      expect(opensearchClient.indices.create).toHaveBeenCalledWith({
+        index: expect.stringMatching(/^test_migration_execution_new_/),
+        body: { mappings: RoutedModel.getMapping() },
+      });
+      expect(RoutedModel.getMapping()).toMatchObject({
+        _routing: { required: true },
+      });
+    });
+
     it("should handle migration errors gracefully", async () => {
       @OpenSearchIndex({ name: "test_migration_execution" })
       class InvalidModel extends Model {
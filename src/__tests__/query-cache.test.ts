@@ -0,0 +1,211 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { MemoryCacheStore, QueryCache } from "../cache";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    search: jest.fn(),
+    index: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    deleteByQuery: jest.fn(),
+    updateByQuery: jest.fn(),
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Query Caching", () => {
+  @OpenSearchIndex({ name: "test_query_cache" })
+  class User extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+
+    @Field({ type: "integer" })
+    age: number;
+  }
+
+  @OpenSearchIndex({ name: "test_query_cache_other" })
+  class Team extends Model {
+    @Field({ type: "keyword" })
+    name: string;
+  }
+
+  const client = opensearchClient as any;
+  const queryCache = QueryCache.getInstance();
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    await queryCache.clear();
+    client.search.mockResolvedValue({
+      body: {
+        took: 1,
+        timed_out: false,
+        hits: {
+          total: { value: 1, relation: "eq" },
+          max_score: 1,
+          hits: [{ _id: "1", _score: 1, _source: { name: "john", age: 30 } }],
+        },
+      },
+    });
+    client.index.mockResolvedValue({ body: { _id: "2", result: "created" } });
+    client.update.mockResolvedValue({ body: { result: "updated" } });
+    client.delete.mockResolvedValue({ body: { result: "deleted" } });
+    client.updateByQuery.mockResolvedValue({ body: { updated: 1 } });
+    client.deleteByQuery.mockResolvedValue({ body: { deleted: 1 } });
+    client.bulk.mockResolvedValue({
+      body: { took: 1, errors: false, items: [] },
+    });
+  });
+
+  afterAll(async () => {
+    await queryCache.clear();
+    BatchProcessor.getInstance().destroy();
+  });
+
+  const search = () =>
+    User.query<User>().term("name", "john").cache({ ttl: 1000 }).execute();
+
+  it("should serve repeated queries from the cache", async () => {
+    const first = await search();
+    const second = await search();
+
+    expect(second).toEqual(first);
+    expect(client.search).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only cache queries that opt in", async () => {
+    await User.query<User>().term("name", "john").execute();
+    await User.query<User>().term("name", "john").execute();
+    await User.query<User>()
+      .term("name", "john")
+      .cache({ enabled: false })
+      .execute();
+
+    expect(client.search).toHaveBeenCalledTimes(3);
+  });
+
+  it("should key entries by the query body unless a key is given", async () => {
+    await search();
+    await User.query<User>().term("name", "jane").cache().execute();
+    expect(client.search).toHaveBeenCalledTimes(2);
+
+    await User.query<User>().term("name", "a").cache({ key: "users" }).find();
+    await User.query<User>().term("name", "b").cache({ key: "users" }).find();
+    expect(client.search).toHaveBeenCalledTimes(3);
+  });
+
+  it("should send concurrent identical queries once", async () => {
+    const results = await Promise.all([search(), search(), search()]);
+
+    expect(results[1]).toBe(results[0]);
+    expect(client.search).toHaveBeenCalledTimes(1);
+  });
+
+  it("should expire entries after the ttl", async () => {
+    jest.useFakeTimers({ now: new Date("2024-01-01T00:00:00.000Z") });
+    try {
+      await search();
+      jest.advanceTimersByTime(1001);
+      await search();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(client.search).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ["index", () => User.index({ name: "jane" })],
+    ["update", () => User.update("1", { age: 31 })],
+    ["updateMany", () => User.updateMany({ name: "john" }, { age: 31 })],
+    ["deleteMany", () => User.deleteMany({ name: "john" })],
+    [
+      "save",
+      async () => {
+        const user = Object.assign(new User(), { _id: "1", name: "john" });
+        await user.save();
+      },
+    ],
+    [
+      "delete",
+      async () => {
+        const user = Object.assign(new User(), { _id: "1", name: "john" });
+        await user.delete();
+      },
+    ],
+    ["bulkIndex", () => User.bulkIndex([{ name: "jane" }], { refresh: true })],
+    ["bulkDelete", () => User.bulkDelete(["1"], { refresh: true })],
+  ])("should invalidate cached queries after %s", async (_, write) => {
+    await search();
+    await write();
+    await search();
+
+    expect(client.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep cached queries for other indices", async () => {
+    await Team.query<Team>().term("name", "core").cache().execute();
+    await User.index({ name: "jane" });
+    await Team.query<Team>().term("name", "core").cache().execute();
+
+    expect(client.search).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep entries of different clients apart", async () => {
+    const other = {
+      search: jest.fn(client.search.getMockImplementation()),
+      index: jest.fn(client.index.getMockImplementation()),
+    } as any;
+    const OtherUser = User.withClient(other);
+    const searchOther = () =>
+      OtherUser.query<User>().term("name", "john").cache().execute();
+    await expect(searchOther()).rejects.toThrow(
+      "[typensearch] Set a cache namespace for this client"
+    );
+    queryCache.setNamespace(other, "other");
+
+    await search();
+    await searchOther();
+    expect(client.search).toHaveBeenCalledTimes(1);
+    expect(other.search).toHaveBeenCalledTimes(1);
+
+    await OtherUser.index({ name: "jane" });
+    await search();
+    await searchOther();
+    expect(client.search).toHaveBeenCalledTimes(1);
+    expect(other.search).toHaveBeenCalledTimes(2);
+  });
+
+  it("should read and invalidate through a custom store", async () => {
+    const entries = new Map<string, any>();
+    queryCache.setStore({
+      get: async (key) => entries.get(key),
+      set: async (key, value) => {
+        entries.set(key, value);
+      },
+      delete: async (key) => {
+        entries.delete(key);
+      },
+      deleteByPrefix: async (prefix) => {
+        for (const key of [...entries.keys()]) {
+          if (key.startsWith(prefix)) entries.delete(key);
+        }
+      },
+    });
+
+    try {
+      await search();
+      await search();
+      expect(client.search).toHaveBeenCalledTimes(1);
+      expect([...entries.keys()][0]).toMatch(/^test_query_cache:default:/);
+
+      await User.index({ name: "jane" });
+      expect(entries.size).toBe(0);
+    } finally {
+      queryCache.setStore(new MemoryCacheStore());
+    }
+  });
+});
@@ -221,6 +221,9 @@ describe("QueryBuilder", () => {
       city: string;
       country: string;
     };
+
+    @Field({ type: "date" })
+    createdAt: Date;
   }
 
   describe("Basic Queries", () => {
@@ -335,6 +338,50 @@ describe("QueryBuilder", () => {
     });
   });
 
+  describe("Type-safe Field Paths", () => {
+    it("should accept nested paths and multi-field suffixes", () => {
+      const query = TestModel.query<TestModel>()
+        .match("address.city", "New York")
+        .sort("name.keyword", "asc")
+        .sort("_score", "desc")
+        .terms("by_country", { field: "address.country" });
+
+      const searchBody = (query as any).query;
+      expect(searchBody.query.match["address.city"].query).toBe("New York");
+      expect(searchBody.aggs.by_country.terms.field).toBe("address.country");
+    });
+
+    it("should reject unknown fields and mistyped values", () => {
+      const query = TestModel.query<TestModel>();
+
+      // @ts-expect-error unknown field
+      query.term("nmae", "John");
+      // @ts-expect-error age is a number
+      query.term("age", "25");
+      // @ts-expect-error unknown nested property
+      query.match("address.zip", "10001");
+      // @ts-expect-error unknown aggregation field
+      query.avg("avg_salary", { field: "salary" });
+
+      query.term("tags", "developer");
+      query.range("createdAt", { gte: "2024-01-01" });
+      query.term("createdAt", new Date("2024-01-01"));
+    });
+
+    it("should build range clauses in must and mustNot", () => {
+      const query = TestModel.query<TestModel>().bool((q) =>
+        q.must("age", { gte: 20, lte: 30 }).mustNot("age", { gt: 28 })
+      );
+
+      const searchBody = (query as any).query;
+      expect(searchBody.query.bool.must[0].range.age).toEqual({
+        gte: 20,
+        lte: 30,
+      });
+      expect(searchBody.query.bool.must_not[0].range.age).toEqual({ gt: 28 });
+    });
+  });
+
   describe("Query Execution", () => {
     beforeEach(async () => {
       // 테스트 데이터 생성
@@ -380,6 +427,45 @@ describe("QueryBuilder", () => {
     });
   });
 
+  describe("Hydration", () => {
+    it("should return model instances from find", async () => {
+      const users = await TestModel.query<TestModel>()
+        .match("name", "John")
+        .find();
+
+      expect(users).toHaveLength(2);
+      expect(users[0]).toBeInstanceOf(TestModel);
+      expect(users[0]._id).toBe("1");
+      expect(users[0]._score).toBe(1.0);
+      expect(users[0].name).toBe("John Doe");
+      expect(users[0].address.city).toBe("New York");
+    });
+
+    it("should request versions and keep totals when hydrating", async () => {
+      const { opensearchClient } = jest.requireMock("../client");
+
+      const result = await TestModel.query<TestModel>()
+        .match("name", "John")
+        .highlight(["name"], { pre_tags: ["<b>"], post_tags: ["</b>"] })
+        .executeAndHydrate();
+
+      expect(result.total.value).toBe(2);
+      expect(result.hits[1]).toBeInstanceOf(TestModel);
+      expect(result.hits[1]._id).toBe("2");
+      expect(opensearchClient.search).toHaveBeenLastCalledWith({
+        index: "test_query_builder",
+        body: expect.objectContaining({
+          version: true,
+          highlight: {
+            pre_tags: ["<b>"],
+            post_tags: ["</b>"],
+            fields: { name: {} },
+          },
+        }),
+      });
+    });
+  });
+
   describe("Aggregations", () => {
     beforeEach(async () => {
       // 테스트 데이터 생성
@@ -0,0 +1,181 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    get: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    search: jest.fn(),
+    count: jest.fn(),
+    mget: jest.fn(),
+    updateByQuery: jest.fn(),
+    deleteByQuery: jest.fn(),
+  },
+}));
+
+describe("Request Options", () => {
+  @OpenSearchIndex({ name: "test_request_options" })
+  class Order extends Model {
+    @Field({ type: "keyword" })
+    customer: string;
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.index.mockResolvedValue({ body: { _id: "1", result: "created" } });
+    client.get.mockResolvedValue({
+      body: { _id: "1", found: true, _source: { customer: "acme" } },
+    });
+    client.update.mockResolvedValue({ body: { result: "updated" } });
+    client.delete.mockResolvedValue({ body: { result: "deleted" } });
+    client.search.mockResolvedValue({ body: { hits: { hits: [] } } });
+    client.count.mockResolvedValue({ body: { count: 3 } });
+    client.mget.mockResolvedValue({ body: { docs: [] } });
+    client.updateByQuery.mockResolvedValue({ body: { updated: 1 } });
+    client.deleteByQuery.mockResolvedValue({ body: { deleted: 1 } });
+  });
+
+  const order = () =>
+    Object.assign(new Order(), { _id: "1", customer: "acme" });
+
+  it("should pass routing, refresh policy and timeouts when indexing", async () => {
+    await Order.index(
+      { customer: "acme" },
+      {
+        routing: "acme",
+        refresh: "wait_for",
+        timeout: "5s",
+        requestTimeout: 2000,
+      }
+    );
+
+    expect(client.index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: "test_request_options",
+        routing: "acme",
+        refresh: "wait_for",
+        timeout: "5s",
+      }),
+      { requestTimeout: 2000 }
+    );
+  });
+
+  it("should keep accepting a boolean refresh", async () => {
+    await Order.index({ customer: "acme" }, true);
+    await order().save(true);
+
+    expect(client.index.mock.calls[0]).toHaveLength(1);
+    expect(client.index.mock.calls[0][0].refresh).toBe(true);
+    expect(client.update.mock.calls[0][0].refresh).toBe(true);
+  });
+
+  it("should pass routing and preference to reads", async () => {
+    await Order.get("1", { routing: "acme", preference: "_local" });
+    await Order.count({ query: { match_all: {} } }, { preference: "_local" });
+    await Order.search({ query: { match_all: {} } }, 10, {
+      routing: "acme",
+      timeout: "1s",
+    });
+
+    expect(client.get).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "1",
+        routing: "acme",
+        preference: "_local",
+      })
+    );
+    expect(client.count.mock.calls[0][0].preference).toBe("_local");
+    expect(client.search).toHaveBeenCalledWith(
+      expect.objectContaining({ size: 10, routing: "acme", timeout: "1s" })
+    );
+  });
+
+  it("should pass options to save and delete", async () => {
+    await order().save({ refresh: "wait_for", routing: "acme" });
+    await order().delete({ refresh: "wait_for", routing: "acme" });
+    await Order.update("1", { customer: "acme" }, { routing: "acme" });
+
+    expect(client.update.mock.calls[0][0]).toMatchObject({
+      refresh: "wait_for",
+      routing: "acme",
+    });
+    expect(client.delete.mock.calls[0][0]).toMatchObject({
+      refresh: "wait_for",
+      routing: "acme",
+    });
+    expect(client.update.mock.calls[1][0].routing).toBe("acme");
+  });
+
+  it("should pass request options to multi-document calls", async () => {
+    const { signal } = new AbortController();
+    const options = { requestTimeout: 2000, signal };
+    await Order.getMany(["1"], { ...options, preference: "_local" });
+    await Order.findOneAndUpdate(
+      { customer: "acme" },
+      { customer: "globex" },
+      { ...options, routing: "acme", preference: "_local" }
+    );
+    await Order.updateMany(
+      { customer: "acme" },
+      { customer: "globex" },
+      { ...options, conflicts: "proceed" }
+    );
+    await Order.deleteMany({ customer: "acme" }, options);
+
+    expect(client.mget).toHaveBeenCalledWith(
+      expect.objectContaining({ preference: "_local" }),
+      { requestTimeout: 2000 }
+    );
+    expect(client.search).toHaveBeenCalledWith(
+      expect.objectContaining({ routing: "acme", preference: "_local" }),
+      { requestTimeout: 2000 }
+    );
+    const [updateParams, updateTransport] = client.updateByQuery.mock.calls[0];
+    expect(updateParams.conflicts).toBe("proceed");
+    expect(updateParams).not.toHaveProperty("signal");
+    expect(updateParams).not.toHaveProperty("request_timeout");
+    expect(updateTransport).toEqual({ requestTimeout: 2000 });
+    expect(client.deleteByQuery.mock.calls[0][1]).toEqual({
+      requestTimeout: 2000,
+    });
+  });
+
+  it("should abort the request when the signal fires", async () => {
+    const abort = jest.fn();
+    let reject: (error: Error) => void;
+    client.get.mockImplementation(() =>
+      Object.assign(new Promise((_, r) => (reject = r)), {
+        abort: () => {
+          abort();
+          reject(new Error("Request aborted"));
+        },
+      })
+    );
+
+    const controller = new AbortController();
+    const result = Order.get("1", { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toThrow("Request aborted");
+    expect(abort).toHaveBeenCalledTimes(1);
+  });
+
+  it("should abort immediately when the signal has already fired", async () => {
+    const abort = jest.fn();
+    client.count.mockReturnValue(
+      Object.assign(Promise.resolve({ body: { count: 0 } }), { abort })
+    );
+
+    const controller = new AbortController();
+    controller.abort();
+    await Order.count({}, { signal: controller.signal });
+
+    expect(abort).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { Field, OpenSearchIndex, Routing } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    get: jest.fn(),
+    mget: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    search: jest.fn(),
+    deleteByQuery: jest.fn(),
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Custom Routing", () => {
+  @OpenSearchIndex({ name: "test_routing" })
+  class Order extends Model {
+    @Field({ type: "keyword" })
+    @Routing()
+    tenantId: string;
+
+    @Field({ type: "keyword" })
+    status: string;
+  }
+
+  @OpenSearchIndex({ name: "test_routing_option", routingField: "tenantId" })
+  class Invoice extends Model {
+    @Field({ type: "integer" })
+    tenantId: number;
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.index.mockResolvedValue({ body: { _id: "1", result: "created" } });
+    client.get.mockResolvedValue({
+      body: { _id: "1", found: true, _source: { tenantId: "acme" } },
+    });
+    client.mget.mockResolvedValue({ body: { docs: [] } });
+    client.update.mockResolvedValue({ body: { result: "updated" } });
+    client.delete.mockResolvedValue({ body: { result: "deleted" } });
+    client.search.mockResolvedValue({
+      body: { hits: { total: { value: 0 }, hits: [] } },
+    });
+    client.deleteByQuery.mockResolvedValue({ body: { deleted: 0 } });
+    client.bulk.mockResolvedValue({
+      body: { took: 1, errors: false, items: [] },
+    });
+  });
+
+  afterAll(() => {
+    BatchProcessor.getInstance().destroy();
+  });
+
+  const order = () =>
+    Object.assign(new Order(), { _id: "1", tenantId: "acme", status: "new" });
+
+  it("should require routing in the mapping", () => {
+    expect(Order.getMapping()._routing).toEqual({ required: true });
+    expect(Invoice.getMapping()._routing).toEqual({ required: true });
+  });
+
+  it("should derive routing from the routing field on writes", async () => {
+    await Order.index({ tenantId: "acme", status: "new" });
+    await order().save();
+    await order().delete();
+    await Invoice.index({ tenantId: 42 });
+
+    expect(client.index.mock.calls[0][0].routing).toBe("acme");
+    expect(client.update.mock.calls[0][0].routing).toBe("acme");
+    expect(client.delete.mock.calls[0][0].routing).toBe("acme");
+    expect(client.index.mock.calls[1][0].routing).toBe("42");
+  });
+
+  it("should prefer an explicit routing option", async () => {
+    await Order.index({ tenantId: "acme" }, { routing: "other" });
+
+    expect(client.index.mock.calls[0][0].routing).toBe("other");
+  });
+
+  it("should require routing when it cannot be derived", async () => {
+    await expect(Order.index({ status: "new" })).rejects.toThrow(
+      '[typensearch] index: Routing is required, set "tenantId" or pass the routing option'
+    );
+    await expect(Order.get("1")).rejects.toThrow("get: Routing is required");
+    await expect(Order.delete("1")).rejects.toThrow(
+      "delete: Routing is required"
+    );
+    expect(client.index).not.toHaveBeenCalled();
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it("should pass routing to reads by id", async () => {
+    await Order.get("1", { routing: "acme" });
+    await Order.getMany(["1", "2"], { routing: "acme" });
+    await Order.delete("1", { routing: "acme" });
+
+    expect(client.get.mock.calls[0][0].routing).toBe("acme");
+    expect(client.mget.mock.calls[0][0].body.docs).toEqual([
+      { _id: "1", routing: "acme" },
+      { _id: "2", routing: "acme" },
+    ]);
+    expect(client.delete.mock.calls[0][0].routing).toBe("acme");
+  });
+
+  it("should route bulk operations per document", async () => {
+    await Order.bulkIndex(
+      [
+        { tenantId: "acme", status: "new" },
+        { tenantId: "globex", status: "new" },
+      ],
+      { refresh: true }
+    );
+    await Order.bulkDelete([{ id: "2", routing: "globex" }], {
+      refresh: true,
+    });
+
+    const [indexOps] = client.bulk.mock.calls.map((call: any) => call[0].body);
+    expect(indexOps[0].index.routing).toBe("acme");
+    expect(indexOps[2].index.routing).toBe("globex");
+    expect(client.bulk.mock.calls[1][0].body).toEqual([
+      { delete: { _index: "test_routing", _id: "2", routing: "globex" } },
+    ]);
+  });
+
+  it("should reject bulk operations without routing before queueing", async () => {
+    await expect(
+      Order.bulkIndex([{ tenantId: "acme" }, { status: "new" }], {
+        refresh: true,
+      })
+    ).rejects.toThrow("bulkIndex: Routing is required");
+    await expect(Order.bulkDelete(["1"])).rejects.toThrow(
+      "bulkDelete: Routing is required"
+    );
+
+    await BatchProcessor.getInstance().flush();
+    expect(client.bulk).not.toHaveBeenCalled();
+  });
+
+  it("should derive query routing from term clauses on the routing field", async () => {
+    await Order.query<Order>().term("tenantId", "acme").execute();
+    await Order.query<Order>()
+      .bool((b) => b.filter("tenantId", "acme").must("status", "new"))
+      .execute();
+    await Order.query<Order>().term("status", "new").execute();
+    await Order.query<Order>().term("status", "new").routing("acme").find();
+    await Order.deleteMany({ tenantId: "acme" });
+
+    const routings = client.search.mock.calls.map(
+      (call: any) => call[0].routing
+    );
+    expect(routings).toEqual(["acme", "acme", undefined, "acme"]);
+    expect(client.deleteByQuery.mock.calls[0][0].routing).toBe("acme");
+  });
+});
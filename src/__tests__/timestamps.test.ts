@@ -0,0 +1,134 @@
+import { Field, OpenSearchIndex, CreatedAt, UpdatedAt } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    get: jest.fn(),
+    update: jest.fn(),
+    updateByQuery: jest.fn(),
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Timestamps", () => {
+  @OpenSearchIndex({ name: "test_timestamps", timestamps: true })
+  class Post extends Model {
+    @Field({ type: "text" })
+    title: string;
+
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  @OpenSearchIndex({ name: "test_custom_timestamps" })
+  class Comment extends Model {
+    @Field({ type: "text" })
+    body: string;
+
+    @CreatedAt()
+    postedAt: Date;
+
+    @UpdatedAt()
+    editedAt: Date;
+  }
+
+  const client = opensearchClient as any;
+  const created = new Date("2024-05-01T00:00:00.000Z");
+  const updated = new Date("2024-05-02T12:00:00.000Z");
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: created });
+    client.index.mockResolvedValue({ body: { _id: "1", result: "created" } });
+    client.update.mockResolvedValue({ body: { result: "updated" } });
+    client.updateByQuery.mockResolvedValue({ body: { updated: 1 } });
+    client.get.mockResolvedValue({
+      body: {
+        _id: "1",
+        found: true,
+        _source: {
+          title: "Hello",
+          createdAt: created.toISOString(),
+          updatedAt: created.toISOString(),
+        },
+      },
+    });
+    client.bulk.mockResolvedValue({
+      body: { took: 1, errors: false, items: [] },
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    BatchProcessor.getInstance().destroy();
+  });
+
+  it("should include timestamp fields in the mapping", () => {
+    expect(Post.getMapping().properties.createdAt).toEqual({ type: "date" });
+    expect(Post.getMapping().properties.updatedAt).toEqual({ type: "date" });
+    expect(Comment.getMapping().properties.postedAt.type).toBe("date");
+    expect(Comment.getMapping().properties.editedAt.type).toBe("date");
+  });
+
+  it("should set createdAt and updatedAt on index", async () => {
+    const post = await Post.index({ title: "Hello" });
+
+    expect(post.createdAt).toEqual(created);
+    expect(post.updatedAt).toEqual(created);
+    expect(client.index.mock.calls[0][0].body).toEqual({
+      title: "Hello",
+      createdAt: created,
+      updatedAt: created,
+    });
+  });
+
+  it("should keep an explicit createdAt on index", async () => {
+    const imported = new Date("2020-01-01T00:00:00.000Z");
+    const post = await Post.index({ title: "Old", createdAt: imported });
+
+    expect(post.createdAt).toEqual(imported);
+    expect(post.updatedAt).toEqual(created);
+  });
+
+  it("should only touch updatedAt on save", async () => {
+    const post = await Post.get("1");
+    jest.setSystemTime(updated);
+    await post!.save();
+
+    const doc = client.update.mock.calls[0][0].body.doc;
+    expect(doc.createdAt).toBe(created.toISOString());
+    expect(doc.updatedAt).toEqual(updated);
+  });
+
+  it("should use custom timestamp fields from decorators", async () => {
+    const comment = await Comment.index({ body: "Nice post" });
+
+    expect(comment.postedAt).toEqual(created);
+    expect(comment.editedAt).toEqual(created);
+  });
+
+  it("should set updatedAt in the updateMany script", async () => {
+    await Post.updateMany({ title: "Hello" }, { title: "Renamed" });
+
+    const script = client.updateByQuery.mock.calls[0][0].body.script;
+    expect(script.source).toContain(
+      `ctx._source.updatedAt = '${created.toISOString()}'`
+    );
+    expect(script.source).not.toContain("createdAt");
+  });
+
+  it("should set timestamps on bulk indexed documents", async () => {
+    await Post.bulkIndex([{ title: "First" }], { refresh: true });
+
+    const body = client.bulk.mock.calls[0][0].body;
+    expect(body[1].createdAt).toEqual(created);
+    expect(body[1].updatedAt).toEqual(created);
+  });
+});
@@ -89,7 +89,9 @@ describe("Type System Tests", () => {
       const results = await UserModel.query()
         .nested("orders", (q) =>
           q.bool((b) =>
-            b.must("name", "Product A").must("quantity", { gte: 10 })
+            b
+              .must("orders.name", "Product A")
+              .must("orders.quantity", { gte: 10 })
           )
         )
         .execute();
@@ -122,10 +124,10 @@ describe("Type System Tests", () => {
       // Test union type validation
       const product = new ProductModel();
       product.status = "active";
-      expect(() => product.validate()).not.toThrow();
+      await expect(product.validate()).resolves.toBeUndefined();
 
       product.status = "unknown" as Status;
-      expect(() => product.validate()).toThrow();
+      await expect(product.validate()).rejects.toThrow();
     });
   });
 
@@ -0,0 +1,156 @@
+import { Field, OpenSearchIndex } from "../decorator";
+import { Model } from "../model";
+import { ValidationError, VersionConflictError } from "../errors";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    update: jest.fn(),
+    search: jest.fn(),
+  },
+}));
+
+describe("Upsert and Partial Update", () => {
+  @OpenSearchIndex({ name: "test_update" })
+  class Product extends Model {
+    @Field({ type: "keyword", required: true })
+    sku: string;
+
+    @Field({
+      type: "integer",
+      validate: (value: number) => value >= 0,
+    })
+    stock: number;
+
+    @Field({ type: "keyword", default: "draft" })
+    status: string;
+  }
+
+  const client = opensearchClient as any;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.update.mockImplementation(({ id, body }: any) =>
+      Promise.resolve({
+        body: {
+          _id: id,
+          _version: 2,
+          _seq_no: 5,
+          _primary_term: 1,
+          result: "updated",
+          get: {
+            found: true,
+            _source: { sku: "A-1", status: "draft", ...body.doc },
+          },
+        },
+      })
+    );
+  });
+
+  it("should send a partial update and return the updated instance", async () => {
+    const product = await Product.update(
+      "1",
+      { stock: 5 },
+      { retryOnConflict: 3, refresh: true }
+    );
+
+    expect(client.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: "test_update",
+        id: "1",
+        body: { doc: { stock: 5 } },
+        refresh: true,
+        retry_on_conflict: 3,
+        _source: "true",
+      })
+    );
+    expect(product).toBeInstanceOf(Product);
+    expect(product._id).toBe("1");
+    expect(product._seq_no).toBe(5);
+    expect(product.sku).toBe("A-1");
+    expect(product.stock).toBe(5);
+  });
+
+  it("should validate the changed fields of partial updates", async () => {
+    await expect(Product.update("1", { stock: -1 })).rejects.toThrow(
+      '[typensearch] Validation failed: Validation failed for field "stock"'
+    );
+    await expect(
+      Product.update("1", { stock: "many" as any })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(client.update).not.toHaveBeenCalled();
+  });
+
+  it("should send scripted updates", async () => {
+    const script = {
+      source: "ctx._source.stock += params.count",
+      params: { count: 2 },
+    };
+    await Product.update("1", {}, { script });
+
+    expect(client.update.mock.calls[0][0].body).toEqual({ script });
+  });
+
+  it("should apply defaults and required checks to the upsert document", async () => {
+    await Product.upsert("1", { sku: "A-1", stock: 1 });
+
+    expect(client.update.mock.calls[0][0].body).toEqual({
+      doc: { sku: "A-1", stock: 1 },
+      upsert: { sku: "A-1", stock: 1, status: "draft" },
+    });
+
+    const error = await Product.upsert("2", { stock: 1 }).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors).toEqual([
+      expect.objectContaining({ path: "sku", rule: "required" }),
+    ]);
+  });
+
+  it("should report missing documents and version conflicts", async () => {
+    client.update.mockRejectedValueOnce({ statusCode: 404 });
+    await expect(Product.update("404", { stock: 1 })).rejects.toThrow(
+      "[typesearch] update: Document with id 404 not found"
+    );
+
+    client.update.mockRejectedValueOnce({ statusCode: 409 });
+    await expect(Product.update("1", { stock: 1 })).rejects.toBeInstanceOf(
+      VersionConflictError
+    );
+  });
+
+  it("should update the first document matching a query", async () => {
+    client.search.mockResolvedValue({
+      body: {
+        hits: { hits: [{ _id: "7", _seq_no: 3, _primary_term: 1 }] },
+      },
+    });
+
+    const product = await Product.findOneAndUpdate(
+      { sku: "A-1" },
+      { status: "published" }
+    );
+
+    expect(client.search.mock.calls[0][0].body.query).toEqual({
+      bool: { must: [{ match: { sku: "A-1" } }] },
+    });
+    expect(client.update).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "7", if_seq_no: 3, if_primary_term: 1 })
+    );
+    expect(product!._id).toBe("7");
+    expect(product!.status).toBe("published");
+  });
+
+  it("should return null when no document matches", async () => {
+    client.search.mockResolvedValue({ body: { hits: { hits: [] } } });
+
+    const product = await Product.findOneAndUpdate(
+      { sku: "missing" },
+      { status: "published" }
+    );
+
+    expect(product).toBeNull();
+    expect(client.update).not.toHaveBeenCalled();
+  });
+});
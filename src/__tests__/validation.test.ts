@@ -0,0 +1,316 @@
+import { Field, OpenSearchIndex, Validate } from "../decorator";
+import { Model } from "../model";
+import { BatchProcessor } from "../batch";
+import { ValidationError } from "../errors";
+import { opensearchClient } from "../client";
+import "jest";
+
+jest.mock("../client", () => ({
+  opensearchClient: {
+    index: jest.fn(),
+    update: jest.fn(),
+    bulk: jest.fn(),
+  },
+}));
+
+describe("Validation", () => {
+  @OpenSearchIndex({ name: "test_validation" })
+  class Customer extends Model {
+    @Field({ type: "keyword", required: true })
+    name: string;
+
+    @Field({ type: "integer", validate: (value: number) => value >= 0 })
+    age: number;
+
+    @Field({ type: "date" })
+    joinedAt: Date | string;
+
+    @Field({ type: "geo_point" })
+    location: any;
+
+    @Field({ type: "boolean" })
+    active: boolean;
+
+    @Field({
+      type: "nested",
+      properties: {
+        sku: { type: "keyword", required: true },
+        quantity: { type: "integer" },
+        shipping: {
+          type: "object",
+          properties: {
+            address: { type: "text", required: true },
+            weight: { type: "float" },
+          },
+        },
+      },
+    })
+    orders: any[];
+  }
+
+  const customer = (fields: Partial<Customer>) =>
+    Object.assign(new Customer(), { name: "kim", ...fields });
+
+  const failures = async (instance: Model) => {
+    try {
+      await instance.validate();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      return (error as ValidationError).errors;
+    }
+    return [];
+  };
+
+  it("should accept values of the declared types", async () => {
+    const valid = customer({
+      age: 30,
+      joinedAt: "2024-01-01T00:00:00.000Z",
+      location: { lat: 37.5, lon: 127 },
+      active: true,
+      orders: [
+        { sku: "a", quantity: 1, shipping: { address: "Seoul", weight: 1.5 } },
+      ],
+    });
+
+    await expect(valid.validate()).resolves.toBeUndefined();
+    await expect(
+      customer({ joinedAt: new Date(), location: [127, 37.5] }).validate()
+    ).resolves.toBeUndefined();
+  });
+
+  it("should collect every failure instead of stopping at the first", async () => {
+    const errors = await failures(
+      Object.assign(new Customer(), { age: -1, active: "yes" as any })
+    );
+
+    expect(errors).toEqual([
+      {
+        path: "name",
+        rule: "required",
+        value: undefined,
+        message: 'Required field "name" is missing',
+      },
+      {
+        path: "age",
+        rule: "validate",
+        value: -1,
+        message: 'Validation failed for field "age"',
+      },
+      {
+        path: "active",
+        rule: "type",
+        value: "yes",
+        message: 'Field "active" must be a boolean',
+      },
+    ]);
+  });
+
+  it("should type-check numbers, dates and geo points", async () => {
+    const errors = await failures(
+      customer({
+        age: 1.5,
+        joinedAt: "not a date",
+        location: { lat: 120, lon: 0 },
+      })
+    );
+
+    expect(errors.map((error) => [error.path, error.rule])).toEqual([
+      ["age", "type"],
+      ["joinedAt", "type"],
+      ["location", "type"],
+    ]);
+    expect(errors[0].message).toBe('Field "age" must be an integer');
+  });
+
+  it("should recurse into arrays of nested objects", async () => {
+    const errors = await failures(
+      customer({
+        orders: [
+          { sku: "a", shipping: { address: "Seoul" } },
+          { quantity: "2", shipping: { weight: "heavy" } },
+        ],
+      })
+    );
+
+    expect(errors.map((error) => error.path)).toEqual([
+      "orders[1].sku",
+      "orders[1].quantity",
+      "orders[1].shipping.address",
+      "orders[1].shipping.weight",
+    ]);
+  });
+
+  it("should summarize the failures in the error message", async () => {
+    await expect(new Customer().validate()).rejects.toThrow(
+      '[typensearch] Validation failed: Required field "name" is missing'
+    );
+  });
+
+  describe("Validators", () => {
+    const taken = new Set(["admin"]);
+
+    @OpenSearchIndex({ name: "test_validators" })
+    @Validate<Booking>((doc) =>
+      doc.endsAt > doc.startsAt
+        ? true
+        : {
+            valid: false,
+            path: "endsAt",
+            message: "endsAt must follow startsAt",
+          }
+    )
+    @Validate<Booking>((doc) => doc.guests <= 10 || "Too many guests")
+    class Booking extends Model {
+      @Field({
+        type: "keyword",
+        minLength: 3,
+        pattern: /^[a-z]+$/,
+        validate: async (value: string) =>
+          !taken.has(value) || `Handle "${value}" is taken`,
+      })
+      handle: string;
+
+      @Field({ type: "integer", min: 1, max: 20 })
+      guests: number;
+
+      @Field({ type: "keyword", enum: ["draft", "confirmed"] })
+      status: string;
+
+      @Field({ type: "integer" })
+      startsAt: number;
+
+      @Field({
+        type: "integer",
+        validate: (value: number, doc: Booking) => value - doc.startsAt <= 7,
+      })
+      endsAt: number;
+    }
+
+    const client = opensearchClient as any;
+    const booking = (fields: Partial<Booking> = {}) =>
+      Object.assign(new Booking(), {
+        _id: "1",
+        handle: "kim",
+        guests: 2,
+        status: "draft",
+        startsAt: 1,
+        endsAt: 2,
+        ...fields,
+      });
+
+    beforeEach(() => {
+      jest.resetAllMocks();
+      client.index.mockResolvedValue({ body: { _id: "1", result: "created" } });
+      client.update.mockResolvedValue({ body: { result: "updated" } });
+      client.bulk.mockResolvedValue({
+        body: { took: 1, errors: false, items: [] },
+      });
+    });
+
+    afterAll(() => {
+      BatchProcessor.getInstance().destroy();
+    });
+
+    it("should apply built-in rules from @Field options", async () => {
+      const errors = await failures(
+        booking({ handle: "Ab", guests: 0, status: "paid" })
+      );
+
+      expect(
+        errors.map(({ path, rule, message }) => [path, rule, message])
+      ).toEqual([
+        ["handle", "minLength", 'Field "handle" must be at least 3 characters'],
+        ["guests", "min", 'Field "guests" must be at least 1'],
+        [
+          "status",
+          "enum",
+          'Field "status" must be one of "draft", "confirmed"',
+        ],
+      ]);
+    });
+
+    it("should not emit built-in rules in the mapping", () => {
+      expect(Booking.getMapping().properties.guests).toEqual({
+        type: "integer",
+      });
+    });
+
+    it("should use messages returned by async and cross-field validators", async () => {
+      const errors = await failures(booking({ handle: "admin", endsAt: 9 }));
+
+      expect(errors.map(({ path, message }) => [path, message])).toEqual([
+        ["handle", 'Handle "admin" is taken'],
+        ["endsAt", 'Validation failed for field "endsAt"'],
+      ]);
+    });
+
+    it("should run class validators in declaration order once fields pass", async () => {
+      const errors = await failures(booking({ guests: 12, endsAt: 0 }));
+
+      expect(errors).toEqual([
+        {
+          path: "endsAt",
+          rule: "document",
+          value: 0,
+          message: "endsAt must follow startsAt",
+        },
+        {
+          path: "",
+          rule: "document",
+          value: undefined,
+          message: "Too many guests",
+        },
+      ]);
+      expect(await failures(booking({ guests: 0, endsAt: 0 }))).toHaveLength(1);
+    });
+
+    it("should validate before index, save and bulkIndex", async () => {
+      await expect(Booking.index(booking({ guests: 0 }))).rejects.toThrow(
+        ValidationError
+      );
+      await expect(booking({ status: "paid" }).save()).rejects.toThrow(
+        ValidationError
+      );
+      const response = await Booking.bulkIndex([booking({ handle: "x" })], {
+        refresh: true,
+      });
+
+      expect(response.items[0].index?.error?.type).toBe("validation_exception");
+      expect(client.index).not.toHaveBeenCalled();
+      expect(client.update).not.toHaveBeenCalled();
+      expect(client.bulk).not.toHaveBeenCalled();
+
+      await Booking.index(booking());
+      await booking().save();
+      expect(client.index).toHaveBeenCalledTimes(1);
+      expect(client.update).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep rules out of the mapping but keep sub-fields named like them", () => {
+      @OpenSearchIndex({ name: "test_validation_mapping" })
+      class Offer extends Model {
+        @Field({
+          type: "object",
+          properties: {
+            min: { type: "integer", min: 0 },
+            max: { type: "integer", required: true },
+            amount: { type: "float" },
+          },
+        })
+        price: { min: number; max: number; amount: number };
+      }
+
+      expect(Booking.getMapping().properties.guests).toEqual({
+        type: "integer",
+      });
+      expect(Offer.getMapping().properties.price).toEqual({
+        type: "object",
+        properties: {
+          min: { type: "integer" },
+          max: { type: "integer" },
+          amount: { type: "float" },
+        },
+      });
+    });
+  });
+});
@@ -1,57 +1,246 @@
-import { BulkOptions, BulkResponse } from "./types";
+import {
+  BatchProcessorOptions,
+  BulkAction,
+  BulkFailureReport,
+  BulkOperationType,
+  BulkOptions,
+  BulkResponse,
+  BulkResponseItem,
+  BulkRetryOptions,
+  BulkUpdate,
+  DeadLetter,
+  DeadLetterHandler,
+  DeadLetterSink,
+  DocumentRef,
+  ReplayOptions,
+} from "./types";
+import { Client } from "@opensearch-project/opensearch";
 import { opensearchClient } from "./client";
 import { indexMetadataMap } from "./decorator";
+import { runHooks } from "./hooks";
+import {
+  pickFields,
+  prepareDocument,
+  prepareUpdate,
+  resolveRouting,
+} from "./util";
+import { QueryCache } from "./cache";
+import { connectionNameOf, getConnection, resolveClient } from "./connection";
+import { collectValidationErrors } from "./validation";
+import { ValidationError } from "./errors";
 
-interface BatchOperation {
-  index?: {
-    _index: string;
-    _id?: string;
-  };
-  delete?: {
-    _index: string;
-    _id: string;
+interface OperationResult {
+  item: BulkResponseItem;
+  attempts: number;
+  response: BulkResponse; // The bulk response the item came from
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<BulkRetryOptions> = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  maxDelay: 10000,
+  factor: 2,
+  jitter: true,
+  retryableStatuses: [429, 502, 503, 504],
+};
+
+const BULK_OPERATIONS: BulkOperationType[] = [
+  "index",
+  "create",
+  "update",
+  "delete",
+];
+
+// Actions and response items both have a single key naming the operation
+function operationOf(
+  entry: Partial<Record<BulkOperationType, unknown>>
+): BulkOperationType {
+  return BULK_OPERATIONS.find((operation) => entry[operation])!;
+}
+
+function itemResult(item?: BulkResponseItem) {
+  return item && item[operationOf(item)];
+}
+
+// Builds the failure report for items, given how many requests each was sent in
+function failureReport(
+  items: BulkResponseItem[],
+  attempts: number[],
+  retryableStatuses: number[]
+): BulkFailureReport | undefined {
+  const report: BulkFailureReport = { retryable: [], permanent: [] };
+  items.forEach((item, i) => {
+    const result = itemResult(item);
+    if (!result?.error) {
+      return;
+    }
+    const failure = {
+      operation: operationOf(item),
+      index: result._index,
+      id: result._id,
+      status: result.status,
+      error: result.error,
+      attempts: attempts[i],
+    };
+    if (isRetryable(item, retryableStatuses)) {
+      report.retryable.push(failure);
+    } else {
+      report.permanent.push(failure);
+    }
+  });
+  return report.retryable.length + report.permanent.length > 0
+    ? report
+    : undefined;
+}
+
+function isRetryable(
+  item: BulkResponseItem,
+  retryableStatuses: number[]
+): boolean {
+  const result = itemResult(item);
+  return (
+    !!result?.error &&
+    (retryableStatuses.includes(result.status) ||
+      /rejected_execution_exception$/.test(result.error.type))
+  );
+}
+
+// Describes a bulk request that failed as a whole like a failed item
+function requestFailure(error: any) {
+  const cause = error?.meta?.body?.error;
+  return {
+    status: error?.statusCode ?? error?.meta?.statusCode,
+    error: {
+      type: cause?.type || error?.name || "request_error",
+      reason: cause?.reason || error?.message || String(error),
+    },
   };
 }
 
+// A queued operation and the promise of the call that queued it
+interface QueuedOperation {
+  action: BulkAction;
+  doc?: any;
+  resolve: (result: OperationResult) => void;
+  reject: (error: any) => void;
+}
+
+// Operations waiting for a client's next bulk request
+interface ClientQueue {
+  operations: QueuedOperation[];
+  size: number; // Effective size, kept up to date as operations are added
+  bytes: number; // Serialized size of the request body
+}
+
+// Size of an action and its source line in the newline-delimited bulk body
+function operationBytes(action: BulkAction, doc?: any): number {
+  const lines = doc ? [action, doc] : [action];
+  return lines.reduce(
+    (bytes, line) => bytes + Buffer.byteLength(JSON.stringify(line)) + 1,
+    0
+  );
+}
+
 export class BatchProcessor {
   private static instance: BatchProcessor;
-  private operations: any[] = [];
+  // Operations are queued per client so each bulk request goes to the right cluster
+  private queues: Map<Client, ClientQueue> = new Map();
   private batchSize: number = 1000;
+  private maxBatchBytes: number = 5 * 1024 * 1024; // 5 MB
+  private maxConcurrentRequests: number = 1;
+  private maxQueueSize: number = Infinity;
+  private inFlightRequests: number = 0;
+  private requestWaiters: Array<() => void> = [];
+  // Operations accepted and not yet settled, queued or in flight
+  private pendingOperations: number = 0;
+  private capacityWaiters: Array<() => void> = [];
   private autoFlushInterval: number = 5000; // 5 seconds
   private autoFlushTimer: NodeJS.Timeout | null = null;
+  private retryOptions: Required<BulkRetryOptions> = DEFAULT_RETRY_OPTIONS;
+  private deadLetterSink: DeadLetterSink | null = null;
+  private client?: Client;
+  private refresh?: boolean | "wait_for";
   private isDestroyed: boolean = false;
-  private static beforeExitHandler: () => void;
-
-  private constructor() {
-    this.startAutoFlush();
+  private closing: Promise<void> | null = null;
+  // Closes the processor when the event loop empties, so pending work is sent
+  private beforeExitHandler: (() => void) | null = null;
 
-    // beforeExit 핸들러가 아직 등록되지 않은 경우에만 등록
-    if (!BatchProcessor.beforeExitHandler) {
-      BatchProcessor.beforeExitHandler = () => {
-        if (BatchProcessor.instance) {
-          BatchProcessor.instance.destroy();
-        }
-      };
-      process.on("beforeExit", BatchProcessor.beforeExitHandler);
+  /**
+   * Creates a processor with its own queue and settings. It flushes on size
+   * and on flush() calls; call start() to also flush on an interval.
+   */
+  constructor(options: BatchProcessorOptions = {}) {
+    this.client = options.client;
+    this.refresh = options.refresh;
+    if (options.batchSize !== undefined) this.setBatchSize(options.batchSize);
+    if (options.flushInterval !== undefined) {
+      this.setAutoFlushInterval(options.flushInterval);
+    }
+    if (options.maxBatchBytes !== undefined) {
+      this.setMaxBatchBytes(options.maxBatchBytes);
+    }
+    if (options.maxConcurrentRequests !== undefined) {
+      this.setMaxConcurrentRequests(options.maxConcurrentRequests);
     }
+    if (options.maxQueueSize !== undefined) {
+      this.setMaxQueueSize(options.maxQueueSize);
+    }
+    if (options.retry) this.setRetryOptions(options.retry);
+    if (options.deadLetterSink) this.setDeadLetterSink(options.deadLetterSink);
   }
 
+  // The shared processor used by Model.bulkIndex() and the other bulk methods
   static getInstance(): BatchProcessor {
     if (!BatchProcessor.instance) {
       BatchProcessor.instance = new BatchProcessor();
+      BatchProcessor.instance.start();
     }
     return BatchProcessor.instance;
   }
 
-  private startAutoFlush(): void {
+  // Starts flushing on the auto-flush interval
+  start(): void {
+    this.assertOpen();
     if (this.autoFlushTimer) {
       clearInterval(this.autoFlushTimer);
     }
     this.autoFlushTimer = setInterval(() => {
-      if (this.operations.length > 0) {
-        this.flush();
+      if (this.queues.size > 0) {
+        // Failures reach the callers waiting on the flushed operations
+        this.flush().catch(() => undefined);
       }
     }, this.autoFlushInterval);
+    // The timer alone does not keep the process running; the beforeExit close flushes what is left
+    this.autoFlushTimer.unref();
+    this.closeBeforeExit();
+  }
+
+  private closeBeforeExit(): void {
+    if (this.beforeExitHandler) {
+      return;
+    }
+    this.beforeExitHandler = () => {
+      this.close().catch((error) =>
+        console.error("[typensearch] Failed to close BatchProcessor:", error)
+      );
+    };
+    process.on("beforeExit", this.beforeExitHandler);
+  }
+
+  private stop(): void {
+    if (this.autoFlushTimer) {
+      clearInterval(this.autoFlushTimer);
+      this.autoFlushTimer = null;
+    }
+  }
+
+  private assertOpen(): void {
+    if (this.isDestroyed) {
+      throw new Error("[typensearch] BatchProcessor has been destroyed");
+    }
+    if (this.closing) {
+      throw new Error("[typensearch] BatchProcessor has been closed");
+    }
   }
 
   setBatchSize(size: number): void {
@@ -61,45 +250,173 @@ export class BatchProcessor {
     this.batchSize = size;
   }
 
+  setMaxBatchBytes(bytes: number): void {
+    if (bytes < 1) {
+      throw new Error("[typensearch] Max batch bytes must be greater than 0");
+    }
+    this.maxBatchBytes = bytes;
+  }
+
+  setMaxConcurrentRequests(requests: number): void {
+    if (requests < 1) {
+      throw new Error(
+        "[typensearch] Max concurrent requests must be greater than 0"
+      );
+    }
+    this.maxConcurrentRequests = requests;
+    while (
+      this.requestWaiters.length > 0 &&
+      this.inFlightRequests < this.maxConcurrentRequests
+    ) {
+      this.inFlightRequests++;
+      this.requestWaiters.shift()!();
+    }
+  }
+
+  // Producers wait in the bulk methods while this many operations are pending
+  setMaxQueueSize(size: number): void {
+    if (size < 1) {
+      throw new Error("[typensearch] Max queue size must be greater than 0");
+    }
+    this.maxQueueSize = size;
+    this.releaseCapacity();
+  }
+
   setAutoFlushInterval(interval: number): void {
     if (interval < 0) {
       throw new Error("[typensearch] Auto flush interval must be non-negative");
     }
     this.autoFlushInterval = interval;
-    this.startAutoFlush();
+    if (this.autoFlushTimer) {
+      this.start();
+    }
   }
 
-  addOperation(operation: BatchOperation, doc?: any): void {
-    if (this.isDestroyed) {
-      throw new Error("[typensearch] BatchProcessor has been destroyed");
+  setRetryOptions(options: BulkRetryOptions): void {
+    const retryOptions = { ...this.retryOptions, ...options };
+    if (retryOptions.maxAttempts < 1) {
+      throw new Error("[typensearch] Max attempts must be greater than 0");
+    }
+    if (retryOptions.initialDelay < 0 || retryOptions.maxDelay < 0) {
+      throw new Error("[typensearch] Retry delays must be non-negative");
     }
+    this.retryOptions = retryOptions;
+  }
 
-    this.operations.push(operation);
-    if (doc) {
-      this.operations.push(doc);
+  // Receives the operations that still fail after retries; null turns it off
+  setDeadLetterSink(sink: DeadLetterHandler | null): void {
+    this.deadLetterSink = typeof sink === "function" ? { write: sink } : sink;
+  }
+
+  getDeadLetterSink(): DeadLetterSink | null {
+    return this.deadLetterSink;
+  }
+
+  // Resolves with the operation's own item once the batch holding it is flushed
+  addOperation(
+    operation: BulkAction,
+    doc?: any,
+    client: Client = this.client || opensearchClient
+  ): Promise<OperationResult> {
+    this.assertOpen();
+    this.closeBeforeExit();
+
+    const bytes = operationBytes(operation, doc);
+    // Send what is queued first when this operation would push the request over the byte limit
+    const queued = this.queues.get(client);
+    if (queued && queued.bytes + bytes > this.maxBatchBytes) {
+      this.flushClient(client).catch(() => undefined);
     }
 
+    if (!this.queues.has(client)) {
+      this.queues.set(client, { operations: [], size: 0, bytes: 0 });
+    }
+    const queue = this.queues.get(client)!;
+    const result = new Promise<OperationResult>((resolve, reject) => {
+      queue.operations.push({ action: operation, doc, resolve, reject });
+    });
+    this.pendingOperations++;
+    // Callers that do not wait for the result must not cause unhandled rejections
+    result
+      .finally(() => {
+        this.pendingOperations--;
+        this.releaseCapacity();
+      })
+      .catch(() => undefined);
+
     // 배치 크기 계산 시 index 작업은 2개의 항목을 사용하고, delete 작업은 1개의 항목을 사용함
-    const effectiveSize = this.operations.reduce((size, op) => {
-      if (op.index) {
-        return size + 0.5; // index 작업은 2개의 항목을 사용하므로 0.5씩 증가
-      } else if (op.delete) {
-        return size + 1; // delete 작업은 1개의 항목을 사용
+    // create and update also send a source line, so they count like index
+    queue.size += operation.delete ? 1 : 0.5;
+    queue.bytes += bytes;
+
+    if (queue.size >= this.batchSize || queue.bytes >= this.maxBatchBytes) {
+      this.flushClient(client).catch(() => undefined);
+    }
+    return result;
+  }
+
+  // Resolves once the queue has room for another operation
+  private async waitForCapacity(): Promise<void> {
+    while (this.pendingOperations >= this.maxQueueSize) {
+      // Queued operations only free capacity once they are sent
+      for (const client of [...this.queues.keys()]) {
+        this.flushClient(client).catch(() => undefined);
       }
-      return size;
-    }, 0);
+      await new Promise<void>((resolve) => this.capacityWaiters.push(resolve));
+    }
+  }
 
-    if (effectiveSize >= this.batchSize) {
-      this.flush();
+  private releaseCapacity(): void {
+    const waiters = this.capacityWaiters.splice(0);
+    waiters.forEach((resolve) => resolve());
+  }
+
+  private async acquireRequestSlot(): Promise<void> {
+    if (this.inFlightRequests < this.maxConcurrentRequests) {
+      this.inFlightRequests++;
+      return;
+    }
+    // The slot is handed over by releaseRequestSlot()
+    await new Promise<void>((resolve) => this.requestWaiters.push(resolve));
+  }
+
+  private releaseRequestSlot(): void {
+    if (
+      this.requestWaiters.length > 0 &&
+      this.inFlightRequests <= this.maxConcurrentRequests
+    ) {
+      this.requestWaiters.shift()!();
+    } else {
+      this.inFlightRequests--;
     }
   }
 
   async flush(options?: BulkOptions): Promise<BulkResponse> {
-    if (this.isDestroyed) {
-      throw new Error("[typensearch] BatchProcessor has been destroyed");
+    this.assertOpen();
+
+    const responses: BulkResponse[] = [];
+    for (const client of [...this.queues.keys()]) {
+      responses.push(await this.flushClient(client, options));
+    }
+
+    if (responses.length === 1) {
+      return responses[0];
     }
+    return {
+      took: responses.reduce((took, response) => took + response.took, 0),
+      errors: responses.some((response) => response.errors),
+      items: responses.flatMap((response) => response.items),
+    };
+  }
 
-    if (this.operations.length === 0) {
+  private async flushClient(
+    client: Client,
+    options?: BulkOptions
+  ): Promise<BulkResponse> {
+    const operationsToFlush = this.queues.get(client)?.operations || [];
+    this.queues.delete(client);
+
+    if (operationsToFlush.length === 0) {
       return {
         took: 0,
         errors: false,
@@ -107,30 +424,199 @@ export class BatchProcessor {
       };
     }
 
-    const operationsToFlush = [...this.operations];
-    this.operations = [];
+    const items: BulkResponseItem[] = new Array(operationsToFlush.length);
+    const attempts: number[] = new Array(operationsToFlush.length).fill(0);
+    const { maxAttempts, retryableStatuses } = this.retryOptions;
+    let took = 0;
+    // Only items rejected with a retryable error are sent again
+    let pending = operationsToFlush.map((_, i) => i);
+    let requestError: any;
+    await this.acquireRequestSlot();
+    try {
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        if (attempt > 1) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, this.retryDelay(attempt - 1))
+          );
+        }
 
+        let response;
+        try {
+          response = await client.bulk({
+            body: pending.flatMap((i) => {
+              const { action, doc } = operationsToFlush[i];
+              return doc ? [action, doc] : [action];
+            }),
+            ...(this.refresh !== undefined && { refresh: this.refresh }),
+            ...options,
+          });
+        } catch (error) {
+          pending.forEach((position) => (attempts[position] = attempt));
+          // A request rejected as a whole is retried like a rejected item
+          if (
+            attempt < maxAttempts &&
+            retryableStatuses.includes(error?.statusCode)
+          ) {
+            continue;
+          }
+          requestError = error;
+          break;
+        }
+        took += response.body.took;
+
+        const retry: number[] = [];
+        pending.forEach((position, i) => {
+          items[position] = response.body.items[i];
+          attempts[position] = attempt;
+          if (
+            attempt < maxAttempts &&
+            isRetryable(items[position], retryableStatuses)
+          ) {
+            retry.push(position);
+          }
+        });
+        pending = retry;
+      }
+    } finally {
+      this.releaseRequestSlot();
+    }
+
+    // Items from earlier attempts are final; the ones still pending failed with the request
+    const unsent = new Set(requestError ? pending : []);
+    unsent.forEach((position) => delete items[position]);
+    const failures = failureReport(items, attempts, retryableStatuses);
+    const body: BulkResponse = {
+      took,
+      errors: !!failures,
+      items,
+      ...(failures && { failures }),
+    };
+    await this.invalidateCache(operationsToFlush, client);
+    if (failures || requestError) {
+      await this.writeDeadLetters(
+        client,
+        operationsToFlush,
+        items,
+        attempts,
+        unsent,
+        requestError
+      );
+    }
+    operationsToFlush.forEach((operation, i) => {
+      if (unsent.has(i)) {
+        operation.reject(requestError);
+      } else {
+        operation.resolve({
+          item: items[i],
+          attempts: attempts[i],
+          response: body,
+        });
+      }
+    });
+    if (requestError) {
+      throw requestError;
+    }
+    return body;
+  }
+
+  // Operations in `unsent` failed with the request and get its error
+  private async writeDeadLetters(
+    client: Client,
+    operations: QueuedOperation[],
+    items: BulkResponseItem[],
+    attempts: number[],
+    unsent: Set<number>,
+    requestError?: any
+  ): Promise<void> {
+    if (!this.deadLetterSink) {
+      return;
+    }
+    const failedAt = new Date().toISOString();
+    // Replays go back to the same named connection
+    const connection = connectionNameOf(client);
+    const letters: DeadLetter[] = [];
+    operations.forEach(({ action, doc }, i) => {
+      const result = unsent.has(i)
+        ? requestFailure(requestError)
+        : itemResult(items[i]);
+      if (result?.error) {
+        letters.push({
+          action,
+          ...(doc && { doc }),
+          errorType: result.error.type,
+          reason: result.error.reason,
+          status: result.status,
+          attempts: attempts[i],
+          failedAt,
+          ...(connection && { connection }),
+        });
+      }
+    });
     try {
-      const response = await opensearchClient.bulk({
-        body: operationsToFlush,
-        ...options,
-      });
-      return response.body as BulkResponse;
+      await this.deadLetterSink.write(letters);
     } catch (error) {
-      // 실패 시 작업을 다시 큐에 추가
-      this.operations = [...operationsToFlush, ...this.operations];
-      throw error;
+      // The failures are still reported to the callers
+      console.error("[typensearch] Failed to write dead letters:", error);
     }
   }
 
+  // Exponential backoff, with full jitter unless disabled
+  private retryDelay(retry: number): number {
+    const { initialDelay, maxDelay, factor, jitter } = this.retryOptions;
+    const delay = Math.min(maxDelay, initialDelay * factor ** (retry - 1));
+    return jitter ? Math.random() * delay : delay;
+  }
+
+  // Waits for the operations of one call and places their items at `positions`
+  private async collect(
+    pending: Array<Promise<OperationResult>>,
+    items: BulkResponseItem[] = new Array(pending.length),
+    positions: number[] = pending.map((_, i) => i)
+  ): Promise<BulkResponse> {
+    const results = await Promise.all(pending);
+    const responses = new Set(results.map((result) => result.response));
+    const attempts: number[] = new Array(items.length).fill(0);
+    results.forEach((result, i) => {
+      items[positions[i]] = result.item;
+      attempts[positions[i]] = result.attempts;
+    });
+    const failures = failureReport(
+      items,
+      attempts,
+      this.retryOptions.retryableStatuses
+    );
+    return {
+      took: [...responses].reduce((took, response) => took + response.took, 0),
+      errors: !!failures,
+      items,
+      ...(failures && { failures }),
+    };
+  }
+
   async bulkIndex<T>(
     modelClass: new () => T,
     docs: Partial<T>[],
     options: BulkOptions = {}
   ): Promise<BulkResponse> {
-    if (this.isDestroyed) {
-      throw new Error("[typensearch] BatchProcessor has been destroyed");
-    }
+    return this.writeDocuments(modelClass, docs, options, "index");
+  }
+
+  // Like bulkIndex(), but each item fails with a conflict if the document exists
+  async bulkCreate<T>(
+    modelClass: new () => T,
+    docs: Partial<T>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResponse> {
+    return this.writeDocuments(modelClass, docs, options, "create");
+  }
+
+  private async writeDocuments<T>(
+    modelClass: new () => T,
+    docs: Partial<T>[],
+    options: BulkOptions,
+    operation: "index" | "create"
+  ): Promise<BulkResponse> {
+    this.assertOpen();
 
     const metadata = indexMetadataMap.get(modelClass.prototype.constructor);
     if (!metadata) {
@@ -138,79 +624,393 @@ export class BatchProcessor {
     }
 
     const indexName = metadata.name!;
-    docs.forEach((doc) => {
-      const _id = (doc as any)._id;
-      const op: any = { index: { _index: indexName } };
-      if (typeof _id !== "undefined") op.index._id = _id;
-      const docBody = { ...(doc as any) };
-      if (typeof _id !== "undefined") delete docBody._id;
-      this.addOperation(op, docBody);
-    });
+    const client = this.client || resolveClient(modelClass);
+    // Results by position in `docs`; invalid or aborted docs get their item here and are never sent
+    const items: BulkResponse["items"] = new Array(docs.length);
+    const queued: Array<{ instance: any; position: number }> = [];
+    for (const [position, doc] of docs.entries()) {
+      let instance: any;
+      try {
+        instance = await prepareDocument(modelClass, doc, metadata);
+      } catch (error) {
+        // A beforeIndex hook aborted or threw for this document only
+        const _id = (doc as any)._id;
+        items[position] = {
+          [operation]: {
+            _index: indexName,
+            _id,
+            status: 400,
+            error: {
+              type: "hook_exception",
+              reason: error instanceof Error ? error.message : String(error),
+              index: indexName,
+              id: _id,
+              status: 400,
+            },
+          },
+        };
+        continue;
+      }
+      const failures = await collectValidationErrors(instance, metadata);
+      if (failures.length > 0) {
+        items[position] = {
+          [operation]: {
+            _index: indexName,
+            _id: instance._id,
+            status: 400,
+            error: {
+              type: "validation_exception",
+              reason: new ValidationError(failures).message,
+              index: indexName,
+              id: instance._id,
+              status: 400,
+              failures,
+            },
+          },
+        };
+        continue;
+      }
+      queued.push({ instance, position });
+    }
+    // Resolve routing up front so a missing value fails before anything is queued
+    const routings = queued.map(({ instance }) =>
+      resolveRouting(
+        metadata,
+        operation === "index" ? "bulkIndex" : "bulkCreate",
+        undefined,
+        instance
+      )
+    );
+
+    const pending: Array<Promise<OperationResult>> = [];
+    for (const [i, { instance }] of queued.entries()) {
+      const _id = instance._id;
+      const target: any = { _index: indexName };
+      if (typeof _id !== "undefined") target._id = _id;
+      if (routings[i] !== undefined) target.routing = routings[i];
+      const docBody = pickFields(instance, metadata);
+      delete docBody._id;
+      await this.waitForCapacity();
+      pending.push(this.addOperation({ [operation]: target }, docBody, client));
+    }
 
     if (options.refresh) {
-      return this.flush(options);
+      await this.flushClient(client, options);
     }
 
-    return {
-      took: 0,
-      errors: false,
-      items: [],
-    };
+    const response = await this.collect(
+      pending,
+      items,
+      queued.map(({ position }) => position)
+    );
+    for (const { instance, position } of queued) {
+      const result = items[position]?.[operation];
+      if (result && !result.error) {
+        instance._id = result._id;
+        await runHooks(instance, "afterIndex");
+      }
+    }
+    return response;
   }
 
   async bulkDelete<T>(
     modelClass: new () => T,
-    ids: string[],
+    refs: DocumentRef[],
     options: BulkOptions = {}
   ): Promise<BulkResponse> {
-    if (this.isDestroyed) {
-      throw new Error("[typensearch] BatchProcessor has been destroyed");
+    this.assertOpen();
+
+    const metadata = indexMetadataMap.get(modelClass.prototype.constructor);
+    if (!metadata) {
+      throw new Error("[typensearch] No metadata found for model");
     }
 
+    const indexName = metadata.name!;
+    const client = this.client || resolveClient(modelClass);
+    const targets = refs.map((ref) => {
+      const { id, routing } =
+        typeof ref === "string" ? { id: ref, routing: undefined } : ref;
+      return { id, routing: resolveRouting(metadata, "bulkDelete", routing) };
+    });
+
+    const pending: Array<Promise<OperationResult>> = [];
+    for (const { id, routing } of targets) {
+      await this.waitForCapacity();
+      pending.push(
+        this.addOperation(
+          {
+            delete: {
+              _index: indexName,
+              _id: id,
+              ...(routing !== undefined && { routing }),
+            },
+          },
+          undefined,
+          client
+        )
+      );
+    }
+
+    if (options.refresh) {
+      await this.flushClient(client, options);
+    }
+
+    return this.collect(pending);
+  }
+
+  async bulkUpdate<T>(
+    modelClass: new () => T,
+    updates: BulkUpdate<T>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResponse> {
+    return this.updateDocuments(modelClass, updates, options, "bulkUpdate");
+  }
+
+  // Merges each document into the stored one, creating it when missing
+  async bulkUpsert<T>(
+    modelClass: new () => T,
+    docs: Partial<T>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResponse> {
+    const updates = docs.map((doc: any) => {
+      if (doc._id === undefined) {
+        throw new Error("[typensearch] bulkUpsert: Documents need an _id");
+      }
+      return { id: doc._id, doc, upsert: true };
+    });
+    return this.updateDocuments(modelClass, updates, options, "bulkUpsert");
+  }
+
+  private async updateDocuments<T>(
+    modelClass: new () => T,
+    updates: BulkUpdate<T>[],
+    options: BulkOptions,
+    operation: "bulkUpdate" | "bulkUpsert"
+  ): Promise<BulkResponse> {
+    this.assertOpen();
+
     const metadata = indexMetadataMap.get(modelClass.prototype.constructor);
     if (!metadata) {
       throw new Error("[typensearch] No metadata found for model");
     }
 
     const indexName = metadata.name!;
-    ids.forEach((id) => {
-      this.addOperation({
-        delete: {
-          _index: indexName,
-          _id: id,
+    const client = this.client || resolveClient(modelClass);
+    // Results by position in `updates`; invalid updates get their item here and are never sent
+    const items: BulkResponse["items"] = new Array(updates.length);
+    const prepared: Array<{
+      action: BulkAction;
+      body: Record<string, any>;
+      position: number;
+    }> = [];
+    for (const [position, update] of updates.entries()) {
+      if (!update.doc && !update.script) {
+        throw new Error(
+          `[typensearch] ${operation}: Pass doc or script for document "${update.id}"`
+        );
+      }
+      let body: Record<string, any>;
+      try {
+        body = await prepareUpdate(update.doc || {}, update, metadata);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        items[position] = {
+          update: {
+            _index: indexName,
+            _id: update.id,
+            status: 400,
+            error: {
+              type: "validation_exception",
+              reason: error.message,
+              index: indexName,
+              id: update.id,
+              status: 400,
+              failures: error.errors,
+            },
+          },
+        };
+        continue;
+      }
+      if (update.docAsUpsert) {
+        body.doc_as_upsert = true;
+      }
+      const routing = resolveRouting(
+        metadata,
+        operation,
+        update.routing,
+        update.doc
+      );
+      prepared.push({
+        action: {
+          update: {
+            _index: indexName,
+            _id: update.id,
+            ...(routing !== undefined && { routing }),
+            ...(update.retryOnConflict !== undefined && {
+              retry_on_conflict: update.retryOnConflict,
+            }),
+          },
         },
+        body,
+        position,
       });
-    });
+    }
+
+    const pending: Array<Promise<OperationResult>> = [];
+    for (const { action, body } of prepared) {
+      await this.waitForCapacity();
+      pending.push(this.addOperation(action, body, client));
+    }
 
     if (options.refresh) {
-      return this.flush(options);
+      await this.flushClient(client, options);
     }
 
-    return {
-      took: 0,
-      errors: false,
-      items: [],
-    };
+    return this.collect(
+      pending,
+      items,
+      prepared.map(({ position }) => position)
+    );
+  }
+
+  /**
+   * Resubmits dead letters and flushes them right away. Each letter goes to
+   * `options.client`, else to the named connection it was sent through, else
+   * to the client of the model indexing into its index. Letters that fail
+   * again are written to the dead-letter sink again.
+   */
+  async replayDeadLetters(
+    letters: DeadLetter[],
+    options: ReplayOptions = {}
+  ): Promise<BulkResponse> {
+    this.assertOpen();
+
+    const { client: replayClient, ...bulkOptions } = options;
+    const clients = new Set<Client>();
+    const pending: Array<Promise<OperationResult>> = [];
+    for (const letter of letters) {
+      const { action, doc } = letter;
+      const client = replayClient || this.clientForLetter(letter);
+      clients.add(client);
+      await this.waitForCapacity();
+      pending.push(this.addOperation(action, doc, client));
+    }
+    for (const client of clients) {
+      await this.flushClient(client, bulkOptions);
+    }
+
+    return this.collect(pending);
+  }
+
+  private clientForLetter({ action, connection }: DeadLetter): Client {
+    if (this.client) {
+      return this.client;
+    }
+    if (connection) {
+      return getConnection(connection);
+    }
+    const index = action[operationOf(action)]!._index;
+    for (const [modelClass, metadata] of indexMetadataMap) {
+      if (metadata.name === index) {
+        return resolveClient(modelClass);
+      }
+    }
+    return opensearchClient;
   }
 
+  // Drops queued operations, rejecting the calls waiting on them
   clear(): void {
-    this.operations = [];
+    const error = new Error(
+      "[typensearch] Queued bulk operations were cleared"
+    );
+    for (const { operations } of this.queues.values()) {
+      operations.forEach((operation) => operation.reject(error));
+    }
+    this.queues.clear();
   }
 
-  destroy(): void {
-    if (this.autoFlushTimer) {
-      clearInterval(this.autoFlushTimer);
-      this.autoFlushTimer = null;
+  private async invalidateCache(
+    operations: QueuedOperation[],
+    client: Client
+  ): Promise<void> {
+    const indices = new Set<string>();
+    for (const { action } of operations) {
+      const target = action[operationOf(action)];
+      if (target?._index) {
+        indices.add(target._index);
+      }
     }
+    const queryCache = QueryCache.getInstance();
+    for (const index of indices) {
+      await queryCache.invalidateIndex(index, client);
+    }
+  }
+
+  /**
+   * Stops accepting operations, flushes everything queued and resolves once
+   * no operation is pending. Flush failures reach the waiting callers.
+   */
+  close(): Promise<void> {
+    if (!this.closing) {
+      this.stop();
+      this.closing = this.drain().then(() => this.release());
+    }
+    return this.closing;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pendingOperations > 0) {
+      for (const client of [...this.queues.keys()]) {
+        this.flushClient(client).catch(() => undefined);
+      }
+      // Woken up each time an operation settles
+      await new Promise<void>((resolve) => this.capacityWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * Closes the processor when the process receives one of `signals`, then
+   * re-raises the signal if nothing else handles it. Returns a function that
+   * removes the handlers.
+   */
+  closeOnSignals(
+    signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"]
+  ): () => void {
+    const removeHandlers = () =>
+      signals.forEach((signal) => process.removeListener(signal, handler));
+    const handler = (signal: NodeJS.Signals) => {
+      removeHandlers();
+      this.close()
+        .catch((error) =>
+          console.error("[typensearch] Failed to close BatchProcessor:", error)
+        )
+        .finally(() => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+    };
+    signals.forEach((signal) => process.on(signal, handler));
+    return removeHandlers;
+  }
+
+  // Drops queued operations without sending them; use close() to flush them first
+  destroy(): void {
+    this.stop();
     this.isDestroyed = true;
     this.clear();
+    this.release();
+  }
 
+  private release(): void {
     // beforeExit 핸들러 제거
-    if (BatchProcessor.beforeExitHandler) {
-      process.removeListener("beforeExit", BatchProcessor.beforeExitHandler);
-      BatchProcessor.beforeExitHandler = undefined;
+    if (this.beforeExitHandler) {
+      process.removeListener("beforeExit", this.beforeExitHandler);
+      this.beforeExitHandler = null;
     }
 
-    BatchProcessor.instance = null as any;
+    if (BatchProcessor.instance === this) {
+      BatchProcessor.instance = null as any;
+    }
   }
 }
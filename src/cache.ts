@@ -1,17 +1,172 @@
-import { SearchResult } from "./types";
+import {
+  CacheFetchOptions,
+  CacheStats,
+  CacheStore,
+  SearchResult,
+} from "./types";
+import { Client } from "@opensearch-project/opensearch";
+import { opensearchClient } from "./client";
 
 interface CacheEntry<T> {
   data: SearchResult<T>;
   expiry: number;
 }
 
+interface StoreEntry<T> {
+  value: T;
+  expiry: number;
+  index: string;
+  size: number;
+}
+
+// Index names cannot contain ":", so cache keys start with the index
+function indexOf(key: string): string {
+  const separator = key.indexOf(":");
+  return separator === -1 ? key : key.slice(0, separator);
+}
+
+/**
+ * Default in-process CacheStore with LRU eviction by entry count and
+ * approximate serialized size.
+ */
+export class MemoryCacheStore implements CacheStore {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  private cache: Map<string, StoreEntry<any>> = new Map();
+  private indexKeys: Map<string, Set<string>> = new Map();
+  private maxEntries: number = Infinity;
+  private maxBytes: number = Infinity;
+  private bytes: number = 0;
+  private evictions: number = 0;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() > entry.expiry) {
+      this.remove(key);
+      return undefined;
+    }
+
+    // Move the entry to the most recently used position
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry.value;
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(value));
+    this.remove(key);
+    if (size > this.maxBytes) {
+      return;
+    }
+
+    const index = indexOf(key);
+    this.cache.set(key, { value, expiry: Date.now() + ttl, index, size });
+    this.bytes += size;
+    if (!this.indexKeys.has(index)) {
+      this.indexKeys.set(index, new Set());
+    }
+    this.indexKeys.get(index)!.add(key);
+
+    this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    if (prefix === "") {
+      this.cache.clear();
+      this.indexKeys.clear();
+      this.bytes = 0;
+      this.evictions = 0;
+      return;
+    }
+
+    // Invalidation within an index only has to visit that index's keys
+    const index = indexOf(prefix);
+    const candidates = prefix.startsWith(`${index}:`)
+      ? this.indexKeys.get(index) || []
+      : this.cache.keys();
+    for (const key of [...candidates]) {
+      if (key.startsWith(prefix)) {
+        this.remove(key);
+      }
+    }
+  }
+
+  async prune(): Promise<void> {
+    const now = Date.now();
+    for (const [key, entry] of this.cache.entries()) {
+      if (now > entry.expiry) {
+        this.remove(key);
+      }
+    }
+  }
+
+  stats(): Pick<CacheStats, "evictions" | "entries" | "bytes"> {
+    return {
+      evictions: this.evictions,
+      entries: this.cache.size,
+      bytes: this.bytes,
+    };
+  }
+
+  setMaxEntries(maxEntries: number): void {
+    if (maxEntries < 1) {
+      throw new Error("[typensearch] Max cache entries must be greater than 0");
+    }
+    this.maxEntries = maxEntries;
+    this.evict();
+  }
+
+  setMaxBytes(maxBytes: number): void {
+    if (maxBytes < 1) {
+      throw new Error("[typensearch] Max cache bytes must be greater than 0");
+    }
+    this.maxBytes = maxBytes;
+    this.evict();
+  }
+
+  private remove(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.cache.delete(key);
+    this.bytes -= entry.size;
+    const keys = this.indexKeys.get(entry.index);
+    keys?.delete(key);
+    if (keys?.size === 0) {
+      this.indexKeys.delete(entry.index);
+    }
+  }
+
+  private evict(): void {
+    while (this.cache.size > this.maxEntries || this.bytes > this.maxBytes) {
+      this.remove(this.cache.keys().next().value);
+      this.evictions++;
+    }
+  }
+}
+
 export class QueryCache {
   private static instance: QueryCache;
-  private cache: Map<string, CacheEntry<any>>;
+  private store: CacheStore;
+  private inflight: Map<string, Promise<SearchResult<any>>> = new Map();
   private defaultTTL: number = 5 * 60 * 1000; // 5 minutes
+  private hits: number = 0;
+  private misses: number = 0;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+  // Names clients in cache keys, so clusters with the same index names never share entries
+  private namespaces: WeakMap<Client, string> = new WeakMap();
 
   private constructor() {
-    this.cache = new Map();
+    this.store = new MemoryCacheStore();
   }
 
   static getInstance(): QueryCache {
@@ -21,56 +176,224 @@ export class QueryCache {
     return QueryCache.instance;
   }
 
-  get<T>(key: string): SearchResult<T> | null {
-    const entry = this.cache.get(key);
-    if (!entry) {
-      return null;
-    }
+  /**
+   * Replaces the storage backend. Entries in the previous store are not
+   * migrated.
+   */
+  setStore(store: CacheStore): void {
+    this.store = store;
+  }
 
-    if (Date.now() > entry.expiry) {
-      this.cache.delete(key);
+  getStore(): CacheStore {
+    return this.store;
+  }
+
+  async get<T>(key: string): Promise<SearchResult<T> | null> {
+    const entry = await this.store.get<CacheEntry<T>>(key);
+    if (!entry || Date.now() > entry.expiry) {
+      this.misses++;
       return null;
     }
 
+    this.hits++;
     return entry.data;
   }
 
-  set<T>(
+  /**
+   * Stores a result that is fresh for `ttl` milliseconds. With a stale
+   * window, the store keeps it for that much longer so fetch() can serve it
+   * while refreshing.
+   */
+  async set<T>(
     key: string,
     data: SearchResult<T>,
-    ttl: number = this.defaultTTL
-  ): void {
-    const expiry = Date.now() + ttl;
-    this.cache.set(key, { data, expiry });
+    ttl: number = this.defaultTTL,
+    staleWhileRevalidate: number = 0
+  ): Promise<void> {
+    const entry: CacheEntry<T> = { data, expiry: Date.now() + ttl };
+    await this.store.set(key, entry, ttl + staleWhileRevalidate);
   }
 
-  delete(key: string): void {
-    this.cache.delete(key);
+  /**
+   * Returns the cached result for `key`, or runs `loader` and caches its
+   * result. Concurrent calls for the same key share a single loader call.
+   * Within the stale window an expired result is returned immediately and
+   * refreshed in the background.
+   */
+  async fetch<T>(
+    key: string,
+    loader: () => Promise<SearchResult<T>>,
+    options: CacheFetchOptions = {}
+  ): Promise<SearchResult<T>> {
+    const ttl = options.ttl ?? this.defaultTTL;
+    const staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+
+    const entry = await this.store.get<CacheEntry<T>>(key);
+    const now = Date.now();
+    if (entry && now <= entry.expiry) {
+      this.hits++;
+      return entry.data;
+    }
+    if (entry && now <= entry.expiry + staleWhileRevalidate) {
+      this.hits++;
+      this.load(key, loader, ttl, staleWhileRevalidate).catch(() => undefined);
+      return entry.data;
+    }
+
+    this.misses++;
+    return this.load(key, loader, ttl, staleWhileRevalidate);
   }
 
-  clear(): void {
-    this.cache.clear();
+  async delete(key: string): Promise<void> {
+    this.inflight.delete(key);
+    await this.store.delete(key);
+  }
+
+  /**
+   * Removes all entries and resets the statistics.
+   */
+  async clear(): Promise<void> {
+    this.inflight.clear();
+    await this.store.deleteByPrefix("");
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Removes the entries of an index. With a client, only the entries of that
+   * client's namespace are removed, or all of them when it has none.
+   */
+  async invalidateIndex(index: string, client?: Client): Promise<void> {
+    const prefix =
+      client && this.namespaceOf(client) !== undefined
+        ? this.keyPrefix(index, client)
+        : `${index}:`;
+    // Results loaded before the write must not be cached once they arrive
+    for (const key of [...this.inflight.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.inflight.delete(key);
+      }
+    }
+    await this.store.deleteByPrefix(prefix);
   }
 
   setDefaultTTL(ttl: number): void {
     this.defaultTTL = ttl;
   }
 
-  generateKey(index: string, query: any): string {
+  setMaxEntries(maxEntries: number): void {
+    this.memoryStore().setMaxEntries(maxEntries);
+  }
+
+  setMaxBytes(maxBytes: number): void {
+    this.memoryStore().setMaxBytes(maxBytes);
+  }
+
+  getStats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: 0,
+      entries: 0,
+      bytes: 0,
+      ...this.store.stats?.(),
+    };
+  }
+
+  generateKey(index: string, query: any, client?: Client): string {
     const queryString = JSON.stringify(query);
-    return `${index}:${queryString}`;
+    return `${this.keyPrefix(index, client)}${queryString}`;
   }
 
-  private cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiry) {
-        this.cache.delete(key);
-      }
+  // Keys start with the index, then the namespace when the entry belongs to a client
+  keyPrefix(index: string, client?: Client): string {
+    if (!client) {
+      return `${index}:`;
+    }
+    const namespace = this.namespaceOf(client);
+    if (namespace === undefined) {
+      throw new Error(
+        "[typensearch] Set a cache namespace for this client with QueryCache.setNamespace() to cache its queries"
+      );
+    }
+    return `${index}:${namespace}:`;
+  }
+
+  /**
+   * Names a client in cache keys. Processes sharing a store must use the
+   * same namespace for the same cluster. Named connections use their name and
+   * the default client uses "default".
+   */
+  setNamespace(client: Client, namespace: string): void {
+    if (namespace.includes(":")) {
+      throw new Error('[typensearch] Cache namespaces cannot contain ":"');
+    }
+    this.namespaces.set(client, namespace);
+  }
+
+  private namespaceOf(client: Client): string | undefined {
+    if (this.namespaces.has(client)) {
+      return this.namespaces.get(client);
     }
+    return client === opensearchClient ? "default" : undefined;
+  }
+
+  /**
+   * Periodically removes expired entries from stores that support it. The
+   * timer does not keep the process alive and is replaced if cleanup is
+   * already running.
+   */
+  startCleanup(interval: number = 60 * 1000): void {
+    this.stopCleanup();
+    this.cleanupTimer = setInterval(() => {
+      this.store.prune?.().catch(() => undefined);
+    }, interval);
+    this.cleanupTimer.unref();
   }
 
-  startCleanupInterval(interval: number = 60 * 1000): NodeJS.Timeout {
-    return setInterval(() => this.cleanup(), interval);
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  private load<T>(
+    key: string,
+    loader: () => Promise<SearchResult<T>>,
+    ttl: number,
+    staleWhileRevalidate: number
+  ): Promise<SearchResult<T>> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = (async () => {
+      try {
+        // Deferred so `promise` is assigned before the loader can settle
+        const data = await Promise.resolve().then(loader);
+        // Skip caching if the key was invalidated while loading
+        if (this.inflight.get(key) === promise) {
+          await this.set(key, data, ttl, staleWhileRevalidate);
+        }
+        return data;
+      } finally {
+        if (this.inflight.get(key) === promise) {
+          this.inflight.delete(key);
+        }
+      }
+    })();
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private memoryStore(): MemoryCacheStore {
+    if (!(this.store instanceof MemoryCacheStore)) {
+      throw new Error(
+        "[typensearch] Cache size limits only apply to MemoryCacheStore"
+      );
+    }
+    return this.store;
   }
 }
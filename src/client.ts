@@ -1,7 +1,8 @@
 import { Client, ClientOptions } from "@opensearch-project/opensearch";
 import { Model } from "./model";
 import { indexMetadataMap } from "./decorator";
-import { convertOptionsToMappingProperties } from "./util";
+import { mappingFor } from "./util";
+import { resolveClient } from "./connection";
 
 export let opensearchClient: Client;
 
@@ -23,37 +24,32 @@ export const initialize = async (
 
   for (const Model of typensearchOptions?.createIndexesIfNotExists) {
     const metadata = indexMetadataMap.get(Model.constructor);
-    const mappingProperties: any = {};
-    const { id, ...propertiesWithoutId } = metadata.properties;
-
-    for (const [propertyName, values] of Object.entries(propertiesWithoutId)) {
-      const { __meta, ...mappingOptions } = values;
-      mappingProperties[propertyName] =
-        convertOptionsToMappingProperties(mappingOptions);
-    }
-
-    await opensearchClient.indices
-      .get({ index: metadata.name })
-      .catch((error) => {
-        if (error?.meta?.body?.error?.type === "index_not_found_exception") {
-          opensearchClient.indices.create({
-            index: metadata.name,
-            body: {
-              settings: {
-                index: {
-                  number_of_shards: metadata.numberOfShards,
-                  number_of_replicas: metadata.numberOfReplicas,
-                },
-              },
-              mappings: {
-                properties: mappingProperties,
+    // Each index is created on the cluster its model talks to
+    const client = resolveClient(Model.constructor);
+    const { properties, ...mapping } = mappingFor(metadata);
+    const { id, ...mappingProperties } = properties;
+
+    await client.indices.get({ index: metadata.name }).catch((error) => {
+      if (error?.meta?.body?.error?.type === "index_not_found_exception") {
+        client.indices.create({
+          index: metadata.name,
+          body: {
+            settings: {
+              index: {
+                number_of_shards: metadata.numberOfShards,
+                number_of_replicas: metadata.numberOfReplicas,
               },
             },
-          });
-        } else {
-          throw error;
-        }
-      });
+            mappings: {
+              ...mapping,
+              properties: mappingProperties,
+            },
+          },
+        });
+      } else {
+        throw error;
+      }
+    });
   }
 
   return opensearchClient;
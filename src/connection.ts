@@ -0,0 +1,69 @@
+import { Client, ClientOptions } from "@opensearch-project/opensearch";
+import { opensearchClient } from "./client";
+import { indexMetadataMap } from "./decorator";
+import { QueryCache } from "./cache";
+
+const connections = new Map<string, Client>();
+
+export const createConnection = (
+  name: string,
+  options: ClientOptions
+): Client => {
+  if (connections.has(name)) {
+    throw new Error(`[typensearch] Connection "${name}" already exists`);
+  }
+
+  const client = new Client(options);
+  connections.set(name, client);
+  QueryCache.getInstance().setNamespace(client, name);
+  return client;
+};
+
+export const getConnection = (name: string): Client => {
+  const client = connections.get(name);
+  if (!client) {
+    throw new Error(`[typensearch] Connection "${name}" has not been created`);
+  }
+  return client;
+};
+
+// Name of a client created with createConnection(), if it was
+export const connectionNameOf = (client: Client): string | undefined => {
+  for (const [name, connection] of connections) {
+    if (connection === client) {
+      return name;
+    }
+  }
+  return undefined;
+};
+
+export const closeConnection = async (name: string): Promise<void> => {
+  const client = connections.get(name);
+  if (!client) {
+    return;
+  }
+
+  connections.delete(name);
+  await client.close();
+};
+
+/**
+ * Resolves the client a model talks to: a client bound with
+ * `Model.withClient()`, then the named connection from `@OpenSearchIndex`,
+ * then the default client from `initialize()`.
+ */
+export const resolveClient = (modelClass: any): Client => {
+  if (modelClass.client) {
+    return modelClass.client;
+  }
+
+  const connection = indexMetadataMap.get(modelClass)?.connection;
+  if (connection) {
+    return getConnection(connection);
+  }
+
+  if (!opensearchClient) {
+    throw new Error("[typesearch] You have to call `initialize` method first");
+  }
+  return opensearchClient;
+};
@@ -0,0 +1,90 @@
+import { promises as fs } from "fs";
+import { DeadLetter, DeadLetterSink } from "./types";
+
+/**
+ * Keeps dead letters in process. When `maxLetters` is reached, the oldest
+ * letters are dropped.
+ */
+export class MemoryDeadLetterSink implements DeadLetterSink {
+  private letters: DeadLetter[] = [];
+
+  constructor(private maxLetters: number = Infinity) {
+    if (maxLetters < 1) {
+      throw new Error("[typensearch] Max letters must be greater than 0");
+    }
+  }
+
+  write(letters: DeadLetter[]): void {
+    this.letters.push(...letters);
+    if (this.letters.length > this.maxLetters) {
+      this.letters.splice(0, this.letters.length - this.maxLetters);
+    }
+  }
+
+  get size(): number {
+    return this.letters.length;
+  }
+
+  getLetters(): DeadLetter[] {
+    return [...this.letters];
+  }
+
+  // Returns the buffered letters and empties the buffer
+  drain(): DeadLetter[] {
+    return this.letters.splice(0);
+  }
+}
+
+/**
+ * Appends dead letters to a file as newline-delimited JSON, one letter per
+ * line.
+ */
+export class FileDeadLetterSink implements DeadLetterSink {
+  // Appends and drains are chained so no letter is written between a read and a truncate
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  write(letters: DeadLetter[]): Promise<void> {
+    const lines = letters.map((letter) => `${JSON.stringify(letter)}\n`);
+    return this.enqueue(() => fs.appendFile(this.path, lines.join("")));
+  }
+
+  async read(): Promise<DeadLetter[]> {
+    await this.writing.catch(() => undefined);
+    return this.readLetters();
+  }
+
+  // Returns the stored letters and truncates the file
+  drain(): Promise<DeadLetter[]> {
+    return this.enqueue(async () => {
+      const letters = await this.readLetters();
+      if (letters.length > 0) {
+        await fs.writeFile(this.path, "");
+      }
+      return letters;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writing.catch(() => undefined).then(task);
+    this.writing = result;
+    return result;
+  }
+
+  private async readLetters(): Promise<DeadLetter[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.path, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return content
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line));
+  }
+}
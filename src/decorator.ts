@@ -1,6 +1,23 @@
-import { FieldOptions, IndexMetadata, IndexOptions } from "./types";
+import {
+  DocumentValidator,
+  FieldOptions,
+  HookEvent,
+  IndexMetadata,
+  IndexOptions,
+  TimestampFields,
+} from "./types";
 
-export const indexMetadataMap = new Map<Function, IndexMetadata>();
+// Classes made by Model.withClient(), mapped to the model each one binds
+export const boundModels = new WeakMap<Function, Function>();
+
+// Bound classes resolve to their model's metadata, so they are never registered
+class IndexMetadataMap extends Map<Function, IndexMetadata> {
+  get(model: Function): IndexMetadata | undefined {
+    return super.get(boundModels.get(model) || model);
+  }
+}
+
+export const indexMetadataMap = new IndexMetadataMap();
 
 export function Field(options?: FieldOptions): PropertyDecorator {
   return function (target: any, propertyKey: string) {
@@ -17,8 +34,29 @@ export function Field(options?: FieldOptions): PropertyDecorator {
         required: false,
       } as FieldOptions);
 
-    const { type, required, properties, validate, ...fieldOptions } = options;
+    const {
+      type,
+      required,
+      properties,
+      validate,
+      relations,
+      min,
+      max,
+      minLength,
+      maxLength,
+      pattern,
+      enum: values,
+      ...fieldOptions
+    } = options;
     delete fieldOptions.default;
+    const rules = Object.entries({
+      min,
+      max,
+      minLength,
+      maxLength,
+      pattern,
+      enum: values,
+    }).filter(([, value]) => value !== undefined);
 
     metadata.properties[propertyKey] = {
       type,
@@ -26,6 +64,8 @@ export function Field(options?: FieldOptions): PropertyDecorator {
       default: options.default,
       properties,
       validate,
+      ...(relations && { relations }),
+      ...Object.fromEntries(rules),
       options: fieldOptions,
     };
 
@@ -38,11 +78,100 @@ export function OpenSearchIndex(options?: IndexOptions): ClassDecorator {
     const existingMetadata = indexMetadataMap.get(constructor) || {
       properties: {},
     };
+
+    let timestamps = existingMetadata.timestamps;
+    if (options?.timestamps) {
+      timestamps = {
+        ...(options.timestamps === true
+          ? { createdAt: "createdAt", updatedAt: "updatedAt" }
+          : options.timestamps),
+        ...timestamps,
+      };
+      for (const propertyName of Object.values(timestamps)) {
+        if (!existingMetadata.properties[propertyName]) {
+          existingMetadata.properties[propertyName] = { type: "date" };
+        }
+      }
+    }
+
     indexMetadataMap.set(constructor, {
       ...existingMetadata,
       name: (options?.name || constructor.name).toLowerCase(),
       numberOfShards: options?.numberOfShards,
       numberOfReplicas: options?.numberOfReplicas,
+      optimisticConcurrency: options?.optimisticConcurrency,
+      connection: options?.connection,
+      routingField: options?.routingField || existingMetadata.routingField,
+      timestamps,
     });
   };
 }
+
+function Timestamp(kind: keyof TimestampFields): () => PropertyDecorator {
+  return () =>
+    function (target: any, propertyKey: string) {
+      Field({ type: "date" })(target, propertyKey);
+
+      const metadata = indexMetadataMap.get(target.constructor)!;
+      metadata.timestamps = { ...metadata.timestamps, [kind]: propertyKey };
+    };
+}
+
+export const CreatedAt = Timestamp("createdAt");
+export const UpdatedAt = Timestamp("updatedAt");
+
+export function Routing(): PropertyDecorator {
+  return function (target: any, propertyKey: string) {
+    const metadata: IndexMetadata = indexMetadataMap.get(
+      target.constructor
+    ) || {
+      properties: {},
+    };
+
+    metadata.routingField = propertyKey;
+
+    indexMetadataMap.set(target.constructor, metadata);
+  };
+}
+
+export function Validate<T = any>(
+  validator: DocumentValidator<T>
+): ClassDecorator {
+  return function (constructor: Function) {
+    const metadata: IndexMetadata = indexMetadataMap.get(constructor) || {
+      properties: {},
+    };
+
+    // Class decorators apply bottom-up, prepend to keep declaration order
+    metadata.validators = [validator, ...(metadata.validators || [])];
+
+    indexMetadataMap.set(constructor, metadata);
+  };
+}
+
+function Hook(event: HookEvent): () => MethodDecorator {
+  return () =>
+    function (target: any, propertyKey: string | symbol) {
+      const metadata: IndexMetadata = indexMetadataMap.get(
+        target.constructor
+      ) || {
+        properties: {},
+      };
+
+      const hooks = metadata.hooks || {};
+      hooks[event] = [...(hooks[event] || []), propertyKey as string];
+      metadata.hooks = hooks;
+
+      indexMetadataMap.set(target.constructor, metadata);
+    };
+}
+
+export const BeforeIndex = Hook("beforeIndex");
+export const AfterIndex = Hook("afterIndex");
+export const BeforeSave = Hook("beforeSave");
+export const AfterSave = Hook("afterSave");
+export const BeforeDelete = Hook("beforeDelete");
+export const AfterDelete = Hook("afterDelete");
+export const BeforeUpdateMany = Hook("beforeUpdateMany");
+export const AfterUpdateMany = Hook("afterUpdateMany");
+export const AfterLoad = Hook("afterLoad");
@@ -0,0 +1,38 @@
+import { ValidationFailure } from "./types";
+
+export class VersionConflictError extends Error {
+  public readonly index: string;
+  public readonly id: string;
+
+  constructor(index: string, id: string, reason?: string) {
+    super(
+      `[typensearch] Version conflict on document "${id}" in index "${index}"${
+        reason ? `: ${reason}` : ""
+      }`
+    );
+    this.name = "VersionConflictError";
+    this.index = index;
+    this.id = id;
+  }
+}
+
+export function isVersionConflict(error: any): boolean {
+  return (
+    error?.statusCode === 409 ||
+    error?.meta?.body?.error?.type === "version_conflict_engine_exception"
+  );
+}
+
+export class ValidationError extends Error {
+  public readonly errors: ValidationFailure[];
+
+  constructor(errors: ValidationFailure[]) {
+    super(
+      `[typensearch] Validation failed: ${errors
+        .map((error) => error.message)
+        .join("; ")}`
+    );
+    this.name = "ValidationError";
+    this.errors = errors;
+  }
+}
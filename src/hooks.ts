@@ -0,0 +1,19 @@
+import { indexMetadataMap } from "./decorator";
+import { HookEvent } from "./types";
+
+export async function runHooks(instance: any, event: HookEvent): Promise<void> {
+  const metadata = indexMetadataMap.get(instance.constructor);
+  const hooks = metadata?.hooks?.[event];
+  if (!hooks) {
+    return;
+  }
+
+  for (const methodName of hooks) {
+    const result = await instance[methodName]();
+    if (result === false && event.startsWith("before")) {
+      throw new Error(
+        `[typensearch] ${event}: Operation aborted by hook "${methodName}"`
+      );
+    }
+  }
+}
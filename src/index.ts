@@ -1,4 +1,9 @@
 export * from "./client";
+export { createConnection, getConnection, closeConnection } from "./connection";
+export { BatchProcessor } from "./batch";
+export * from "./cache";
+export * from "./dead-letter";
 export * from "./decorator";
+export * from "./errors";
 export * from "./model";
 export * from "./types";
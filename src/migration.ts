@@ -1,3 +1,4 @@
+import { Client } from "@opensearch-project/opensearch";
 import { opensearchClient } from "./client";
 import { indexMetadataMap } from "./decorator";
 import {
@@ -9,6 +10,7 @@ import {
   IndexMetadata,
 } from "./types";
 import { v4 as uuidv4 } from "uuid";
+import { mappingFor } from "./util";
 
 export const MIGRATION_INDEX = ".typensearch-migrations";
 
@@ -21,10 +23,11 @@ function getIndexMetadata(modelClass: any): IndexMetadata {
 }
 
 export async function getCurrentMapping(
-  indexName: string
+  indexName: string,
+  client: Client = opensearchClient
 ): Promise<Record<string, any>> {
   try {
-    const response = await opensearchClient.indices.getMapping({
+    const response = await client.indices.getMapping({
       index: indexName,
     });
     return response.body[indexName].mappings.properties || {};
@@ -110,12 +113,13 @@ export async function compareSchemas(
 
 export async function createBackup(
   indexName: string,
-  migrationId: string
+  migrationId: string,
+  client: Client = opensearchClient
 ): Promise<string> {
   const backupIndex = `${indexName}_backup_${migrationId}`;
 
-  const currentMapping = await getCurrentMapping(indexName);
-  await opensearchClient.indices.create({
+  const currentMapping = await getCurrentMapping(indexName, client);
+  await client.indices.create({
     index: backupIndex,
     body: {
       mappings: {
@@ -124,7 +128,7 @@ export async function createBackup(
     },
   });
 
-  await opensearchClient.reindex({
+  await client.reindex({
     body: {
       source: {
         index: indexName,
@@ -144,7 +148,8 @@ export async function createBackup(
 export async function executeMigration(
   modelClass: any,
   plan: MigrationPlan,
-  options: MigrationOptions = {}
+  options: MigrationOptions = {},
+  client: Client = opensearchClient
 ): Promise<MigrationResult> {
   const startTime = Date.now();
   const migrationId = uuidv4();
@@ -181,28 +186,21 @@ export async function executeMigration(
 
     // 백업 생성
     if (options.backup) {
-      backupIndex = await createBackup(indexName, migrationId);
+      backupIndex = await createBackup(indexName, migrationId, client);
     }
 
     if (plan.requiresReindex) {
       // 새 인덱스 생성
       tempIndex = `${indexName}_new_${migrationId}`;
-      await opensearchClient.indices.create({
+      await client.indices.create({
         index: tempIndex,
         body: {
-          mappings: {
-            properties: Object.fromEntries(
-              Object.entries(metadata.properties).map(([field, options]) => [
-                field,
-                { type: options.type },
-              ])
-            ),
-          },
+          mappings: mappingFor(metadata),
         },
       });
 
       // 데이터 재색인
-      await opensearchClient.reindex({
+      await client.reindex({
         body: {
           source: {
             index: indexName,
@@ -217,7 +215,7 @@ export async function executeMigration(
       });
 
       // 별칭 업데이트
-      await opensearchClient.indices.updateAliases({
+      await client.indices.updateAliases({
         body: {
           actions: [
             { remove: { index: indexName, alias: "current" } },
@@ -227,25 +225,23 @@ export async function executeMigration(
       });
 
       // 이전 인덱스 삭제
-      await opensearchClient.indices.delete({
+      await client.indices.delete({
         index: indexName,
       });
 
       // 새 인덱스 이름 변경
-      await opensearchClient.indices.putAlias({
+      await client.indices.putAlias({
         index: tempIndex,
         name: indexName,
       });
     } else {
       // 필드 추가만 필요한 경우
-      await opensearchClient.indices.putMapping({
+      const { properties } = mappingFor(metadata);
+      await client.indices.putMapping({
         index: indexName,
         body: {
           properties: Object.fromEntries(
-            plan.addedFields.map((field) => [
-              field,
-              { type: metadata.properties[field].type },
-            ])
+            plan.addedFields.map((field) => [field, properties[field]])
           ),
         },
       });
@@ -261,7 +257,7 @@ export async function executeMigration(
     };
 
     // 마이그레이션 이력 저장
-    await saveMigrationHistory(result);
+    await saveMigrationHistory(result, client);
 
     return result;
   } catch (error) {
@@ -276,12 +272,12 @@ export async function executeMigration(
     };
 
     // 실패 시 마이그레이션 이력 저장
-    await saveMigrationHistory(result);
+    await saveMigrationHistory(result, client);
 
     // 롤백 로직
     if (backupIndex) {
       try {
-        await opensearchClient.reindex({
+        await client.reindex({
           body: {
             source: {
               index: backupIndex,
@@ -304,9 +300,10 @@ export async function executeMigration(
 }
 
 export async function rollbackMigration(
-  migrationId: string
+  migrationId: string,
+  client: Client = opensearchClient
 ): Promise<MigrationResult> {
-  const history = await getMigrationHistory();
+  const history = await getMigrationHistory(client);
   const migration = history.find((m) => m.migrationId === migrationId);
 
   if (!migration) {
@@ -330,16 +327,16 @@ export async function rollbackMigration(
 
   try {
     // 현재 인덱스 존재 여부 확인
-    const indexExists = await opensearchClient.indices.exists({
+    const indexExists = await client.indices.exists({
       index: indexName,
     });
 
     if (indexExists.body) {
-      await opensearchClient.indices.delete({ index: indexName });
+      await client.indices.delete({ index: indexName });
     }
 
     // 백업에서 복구
-    await opensearchClient.reindex({
+    await client.reindex({
       body: {
         source: {
           index: migration.backupIndex,
@@ -353,7 +350,7 @@ export async function rollbackMigration(
     });
 
     // 백업 인덱스 삭제
-    await opensearchClient.indices.delete({ index: migration.backupIndex });
+    await client.indices.delete({ index: migration.backupIndex });
 
     const result: MigrationResult = {
       success: true,
@@ -364,12 +361,16 @@ export async function rollbackMigration(
     };
 
     // 롤백 정보 저장
-    await updateMigrationHistory(migrationId, {
-      rolledBack: {
-        timestamp: new Date(),
-        success: true,
+    await updateMigrationHistory(
+      migrationId,
+      {
+        rolledBack: {
+          timestamp: new Date(),
+          success: true,
+        },
       },
-    });
+      client
+    );
 
     return result;
   } catch (error: any) {
@@ -383,21 +384,28 @@ export async function rollbackMigration(
     };
 
     // 실패한 롤백 정보 저장
-    await updateMigrationHistory(migrationId, {
-      rolledBack: {
-        timestamp: new Date(),
-        success: false,
-        errors: [error],
+    await updateMigrationHistory(
+      migrationId,
+      {
+        rolledBack: {
+          timestamp: new Date(),
+          success: false,
+          errors: [error],
+        },
       },
-    });
+      client
+    );
 
     throw error;
   }
 }
 
-async function saveMigrationHistory(history: MigrationHistory): Promise<void> {
+async function saveMigrationHistory(
+  history: MigrationHistory,
+  client: Client
+): Promise<void> {
   try {
-    await opensearchClient.index({
+    await client.index({
       index: MIGRATION_INDEX,
       id: history.migrationId,
       body: history,
@@ -406,7 +414,7 @@ async function saveMigrationHistory(history: MigrationHistory): Promise<void> {
   } catch (error: any) {
     if (error.statusCode === 404) {
       // 마이그레이션 인덱스가 없으면 생성
-      await opensearchClient.indices.create({
+      await client.indices.create({
         index: MIGRATION_INDEX,
         body: {
           mappings: {
@@ -428,7 +436,7 @@ async function saveMigrationHistory(history: MigrationHistory): Promise<void> {
           },
         },
       });
-      await opensearchClient.index({
+      await client.index({
         index: MIGRATION_INDEX,
         id: history.migrationId,
         body: history,
@@ -442,9 +450,10 @@ async function saveMigrationHistory(history: MigrationHistory): Promise<void> {
 
 async function updateMigrationHistory(
   migrationId: string,
-  update: Partial<MigrationHistory>
+  update: Partial<MigrationHistory>,
+  client: Client
 ): Promise<void> {
-  await opensearchClient.update({
+  await client.update({
     index: MIGRATION_INDEX,
     id: migrationId,
     body: {
@@ -454,9 +463,11 @@ async function updateMigrationHistory(
   });
 }
 
-export async function getMigrationHistory(): Promise<MigrationHistory[]> {
+export async function getMigrationHistory(
+  client: Client = opensearchClient
+): Promise<MigrationHistory[]> {
   try {
-    const response = await opensearchClient.search({
+    const response = await client.search({
       index: MIGRATION_INDEX,
       body: {
         sort: [{ timestamp: "desc" }],
@@ -4,15 +4,36 @@ import {
   DeleteOptions,
   BulkResponse,
   BulkOptions,
+  BulkUpdate,
   MigrationOptions,
   MigrationPlan,
   MigrationResult,
   MigrationHistory,
   QueryBuilder,
+  HitMetadata,
+  RetryOnConflictOptions,
+  UpdateDocumentOptions,
+  GetManyOptions,
+  RequestOptions,
+  DocumentRef,
+  IndexChildOptions,
 } from "./types";
-import { opensearchClient } from "./client";
-import { indexMetadataMap } from "./decorator";
-import { convertOptionsToMappingProperties } from "./util";
+import { boundModels, indexMetadataMap } from "./decorator";
+import {
+  applyTimestamps,
+  childRelations,
+  convertOptionsToMappingProperties,
+  hydrate,
+  joinFieldOf,
+  mappingFor,
+  pickFields,
+  prepareDocument,
+  prepareUpdate,
+  resolveRouting,
+  routingFor,
+  sendRequest,
+  toRequestOptions,
+} from "./util";
 import {
   getCurrentMapping,
   compareSchemas,
@@ -22,95 +43,172 @@ import {
 } from "./migration";
 import { QueryBuilderImpl } from "./query";
 import { BatchProcessor } from "./batch";
+import { VersionConflictError, isVersionConflict } from "./errors";
+import { validateDocument } from "./validation";
+import { runHooks } from "./hooks";
+import { QueryCache } from "./cache";
+import { resolveClient } from "./connection";
 import { Client } from "@opensearch-project/opensearch";
 
-export abstract class Model {
+// Bound classes are reused per model and client, so binding per request does not grow memory
+const boundClasses = new WeakMap<Function, WeakMap<Client, typeof Model>>();
+
+async function load<T>(modelClass: new () => T, hit: any): Promise<T> {
+  const instance = hydrate(modelClass, hit);
+  await runHooks(instance, "afterLoad");
+  return instance;
+}
+
+export abstract class Model implements HitMetadata {
   public _id: string | undefined;
+  public _score?: number | null;
+  public _version?: number;
+  public _seq_no?: number;
+  public _primary_term?: number;
+  public _highlight?: Record<string, string[]>;
+  public _sort?: any[];
   [property: string]: any;
 
   static client: Client;
 
+  /**
+   * Returns a subclass of this model that talks to `client`. The model
+   * itself keeps using its configured connection.
+   */
+  public static withClient<M extends typeof Model>(this: M, client: Client): M {
+    const model = (boundModels.get(this) || this) as M;
+    if (!boundClasses.has(model)) {
+      boundClasses.set(model, new WeakMap());
+    }
+    const byClient = boundClasses.get(model)!;
+    if (byClient.has(client)) {
+      return byClient.get(client) as M;
+    }
+
+    const Bound = class extends (model as any) {} as unknown as M;
+    Object.defineProperty(Bound, "name", { value: model.name });
+    Bound.client = client;
+    boundModels.set(Bound, model);
+    byClient.set(client, Bound);
+    return Bound;
+  }
+
   public static async index<T extends Model>(
     this: new () => T,
     doc: Partial<T>,
-    refresh?: boolean
+    options?: boolean | RequestOptions
   ): Promise<T> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typesearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
+    const requestOptions = toRequestOptions(options);
 
     const metadata = indexMetadataMap.get(this.prototype.constructor);
 
-    const instance: any = new this();
-    const indexDoc: any = {};
-    for (const [propertyName, options] of Object.entries(metadata.properties)) {
-      if (propertyName in doc) {
-        const value = doc[propertyName as string];
-        instance[propertyName] = value;
-        indexDoc[propertyName] = value;
-      } else if ("default" in options) {
-        const value =
-          typeof options.default === "function"
-            ? options.default()
-            : options.default;
-        instance[propertyName] = value;
-        indexDoc[propertyName] = value;
-      } else if (options.required) {
-        throw new Error(
-          `[typesearch] index: Required field "${propertyName}" is missing`
-        );
-      }
-    }
+    const instance: any = await prepareDocument(this, doc, metadata);
+    await validateDocument(instance, metadata);
 
     // If _id is present in doc, pass it to OpenSearch as the id, and remove it from the body
-    const _id = (doc as any)._id;
-    const others = { ...indexDoc };
-    if (typeof _id !== "undefined") {
-      instance._id = _id;
-      delete others._id;
-    }
-
-    const response = await opensearchClient
-      .index({
-        index: metadata.name,
-        id: _id,
-        body: others,
-        refresh,
-      })
-      .catch((error) => {
-        throw error;
-      });
+    const _id = instance._id;
+    const others = pickFields(instance, metadata);
+    delete others._id;
+
+    const response = await sendRequest(requestOptions, (...transport) =>
+      client.index(
+        {
+          index: metadata.name,
+          id: _id,
+          body: others,
+          refresh: requestOptions.refresh,
+          routing: resolveRouting(
+            metadata,
+            "index",
+            requestOptions.routing,
+            instance
+          ),
+          timeout: requestOptions.timeout,
+        },
+        ...transport
+      )
+    );
 
     if (!["created", "updated"].includes(response.body.result)) {
       throw response.body;
     }
 
+    await QueryCache.getInstance().invalidateIndex(metadata.name!, client);
+
     instance._id = response.body._id;
+    instance._version = response.body._version;
+    instance._seq_no = response.body._seq_no;
+    instance._primary_term = response.body._primary_term;
+
+    await runHooks(instance, "afterIndex");
     return instance;
   }
 
+  public static async indexChild<T extends Model>(
+    this: new () => T,
+    parentId: string,
+    doc: Partial<T>,
+    options: IndexChildOptions = {}
+  ): Promise<T> {
+    const metadata = indexMetadataMap.get(this.prototype.constructor);
+    if (!metadata) {
+      throw new Error("[typensearch] indexChild: No metadata found for model");
+    }
+
+    const join = joinFieldOf(metadata);
+    if (!join) {
+      throw new Error("[typensearch] indexChild: Model has no join field");
+    }
+
+    const { relation, ...requestOptions } = options;
+    const children = childRelations(join.relations);
+    if (relation !== undefined && !children.includes(relation)) {
+      throw new Error(
+        `[typensearch] indexChild: Unknown child relation "${relation}"`
+      );
+    }
+    if (relation === undefined && children.length !== 1) {
+      throw new Error(
+        `[typensearch] indexChild: Pass the relation option, one of ${children
+          .map((name) => `"${name}"`)
+          .join(", ")}`
+      );
+    }
+
+    // Children must live on the parent's shard
+    return (this as any).index(
+      {
+        ...doc,
+        [join.field]: { name: relation ?? children[0], parent: parentId },
+      },
+      { ...requestOptions, routing: requestOptions.routing ?? parentId }
+    );
+  }
+
   public static async updateMany<T extends Model>(
     this: new () => T,
     query: Partial<T>,
     updates: Partial<T>,
     options?: UpdateOptions
   ): Promise<ApiResponse> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typesearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
     const metadata = indexMetadataMap.get(this.prototype.constructor);
     if (!metadata) {
       throw new Error("[typesearch] No metadata found for model");
     }
 
+    // Hooks see the updates as a partial model instance and may change them.
+    // The constructor is skipped so field initializers are not sent as updates
+    const target: any = Object.assign(Object.create(this.prototype), updates);
+    applyTimestamps(target, metadata, "update", new Date().toISOString());
+    await runHooks(target, "beforeUpdateMany");
+    const changes: Record<string, any> = { ...target };
+
     const body = {
       script: {
-        source: Object.entries(updates)
+        source: Object.entries(changes)
           .map(([key, value]) => {
             if (typeof value === "string") {
               return `ctx._source.${key} = '${value.replace(/'/g, "\\'")}'`;
@@ -147,7 +245,7 @@ export abstract class Model {
           })
           .join(";\n"),
         lang: "painless",
-        params: Object.entries(updates).reduce((acc, [key, value]) => {
+        params: Object.entries(changes).reduce((acc, [key, value]) => {
           if (
             typeof value === "object" &&
             metadata.properties[key]?.type === "nested"
@@ -162,11 +260,24 @@ export abstract class Model {
       },
     };
 
-    return opensearchClient.updateByQuery({
-      index: metadata.name!,
-      body,
-      ...convertOptionsToMappingProperties(options),
-    });
+    const { requestTimeout, signal, ...params } = options || {};
+    const response = await sendRequest(
+      { requestTimeout, signal },
+      (...transport) =>
+        client.updateByQuery(
+          {
+            index: metadata.name!,
+            body,
+            routing: routingFor(query, metadata),
+            ...convertOptionsToMappingProperties(params),
+          },
+          ...transport
+        )
+    );
+    await QueryCache.getInstance().invalidateIndex(metadata.name!, client);
+
+    await runHooks(target, "afterUpdateMany");
+    return response;
   }
 
   public static async deleteMany<T extends Model>(
@@ -174,37 +285,41 @@ export abstract class Model {
     query: Partial<T>,
     options?: DeleteOptions
   ): Promise<ApiResponse> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typesearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
     const metadata = indexMetadataMap.get(this.prototype.constructor);
     if (!metadata) {
       throw new Error("[typesearch] No metadata found for model");
     }
 
-    return opensearchClient.deleteByQuery({
-      index: metadata.name!,
-      body: {
-        query: {
-          match: query,
-        },
-      },
-      ...convertOptionsToMappingProperties(options),
-    });
+    const { requestTimeout, signal, ...params } = options || {};
+    const response = await sendRequest(
+      { requestTimeout, signal },
+      (...transport) =>
+        client.deleteByQuery(
+          {
+            index: metadata.name!,
+            body: {
+              query: {
+                match: query,
+              },
+            },
+            routing: routingFor(query, metadata),
+            ...convertOptionsToMappingProperties(params),
+          },
+          ...transport
+        )
+    );
+    await QueryCache.getInstance().invalidateIndex(metadata.name!, client);
+    return response;
   }
 
   public static async get<T extends Model>(
     this: new () => T,
-    id: string
+    id: string,
+    options: RequestOptions = {}
   ): Promise<T | null> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typesearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
     const metadata = indexMetadataMap.get(this.prototype.constructor);
     if (!metadata) {
@@ -212,16 +327,20 @@ export abstract class Model {
     }
 
     try {
-      const { body } = await opensearchClient.get({
-        index: metadata.name!,
-        id,
-      });
+      const { body } = await sendRequest(options, (...transport) =>
+        client.get(
+          {
+            index: metadata.name!,
+            id,
+            routing: resolveRouting(metadata, "get", options.routing),
+            preference: options.preference,
+          },
+          ...transport
+        )
+      );
 
       if (body.found) {
-        const instance = new this();
-        Object.assign(instance, body._source);
-        instance._id = body._id;
-        return instance;
+        return load(this, body);
       }
     } catch (error: any) {
       if (error.statusCode === 404) {
@@ -233,62 +352,244 @@ export abstract class Model {
     return null;
   }
 
+  public static async getMany<T extends Model>(
+    this: new () => T,
+    ids: string[],
+    options: GetManyOptions = {}
+  ): Promise<Array<T | null>> {
+    const client = resolveClient(this);
+
+    const metadata = indexMetadataMap.get(this.prototype.constructor);
+    if (!metadata) {
+      throw new Error("[typesearch] No metadata found for model");
+    }
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const routing = resolveRouting(metadata, "getMany", options.routing);
+    const { body } = await sendRequest(options, (...transport) =>
+      client.mget(
+        {
+          index: metadata.name!,
+          body: {
+            docs: ids.map((id) => ({
+              _id: id,
+              ...(routing !== undefined && { routing }),
+              ...(options.source !== undefined && { _source: options.source }),
+            })),
+          },
+          preference: options.preference,
+        },
+        ...transport
+      )
+    );
+
+    const instances: Array<T | null> = [];
+    for (const doc of body.docs) {
+      instances.push(doc.found ? await load(this, doc) : null);
+    }
+
+    if (options.preserveOrder === false) {
+      return instances.filter((instance) => instance !== null);
+    }
+    return instances;
+  }
+
+  public static async update<T extends Model>(
+    this: new () => T,
+    id: string,
+    partial: Partial<T>,
+    options: UpdateDocumentOptions<T> = {}
+  ): Promise<T> {
+    const client = resolveClient(this);
+
+    const metadata = indexMetadataMap.get(this.prototype.constructor);
+    if (!metadata) {
+      throw new Error("[typesearch] update: No metadata found for model");
+    }
+
+    const body = await prepareUpdate(partial, options, metadata);
+
+    try {
+      const response = await sendRequest(options, (...transport) =>
+        client.update(
+          {
+            index: metadata.name!,
+            id,
+            body,
+            refresh: options.refresh,
+            routing: resolveRouting(
+              metadata,
+              "update",
+              options.routing,
+              partial
+            ),
+            timeout: options.timeout,
+            retry_on_conflict: options.retryOnConflict,
+            if_seq_no: options.ifSeqNo,
+            if_primary_term: options.ifPrimaryTerm,
+            _source: "true",
+          },
+          ...transport
+        )
+      );
+      await QueryCache.getInstance().invalidateIndex(metadata.name!, client);
+
+      return hydrate(this, {
+        ...response.body,
+        _source: response.body.get?._source,
+      });
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        throw new Error(
+          `[typesearch] update: Document with id ${id} not found`
+        );
+      }
+      if (isVersionConflict(error)) {
+        throw new VersionConflictError(
+          metadata.name!,
+          id,
+          error.meta?.body?.error?.reason
+        );
+      }
+      throw error;
+    }
+  }
+
+  public static async upsert<T extends Model>(
+    this: new () => T,
+    id: string,
+    doc: Partial<T>,
+    options: Omit<UpdateDocumentOptions<T>, "upsert" | "script"> = {}
+  ): Promise<T> {
+    return (this as any).update(id, doc, { ...options, upsert: true });
+  }
+
+  public static async findOneAndUpdate<T extends Model>(
+    this: new () => T,
+    query: Partial<T>,
+    partial: Partial<T>,
+    options: Omit<UpdateDocumentOptions<T>, "ifSeqNo" | "ifPrimaryTerm"> = {}
+  ): Promise<T | null> {
+    const client = resolveClient(this);
+
+    const metadata = indexMetadataMap.get(this.prototype.constructor);
+    if (!metadata) {
+      throw new Error(
+        "[typesearch] findOneAndUpdate: No metadata found for model"
+      );
+    }
+
+    const { body } = await sendRequest(options, (...transport) =>
+      client.search(
+        {
+          index: metadata.name!,
+          body: {
+            query: {
+              bool: {
+                must: Object.entries(query).map(([key, value]) => ({
+                  match: { [key]: value },
+                })),
+              },
+            },
+            size: 1,
+            seq_no_primary_term: true,
+            _source: false,
+          },
+          routing: options.routing,
+          preference: options.preference,
+        },
+        ...transport
+      )
+    );
+
+    const hit = body.hits.hits[0];
+    if (!hit) {
+      return null;
+    }
+
+    // Make sure the document is still the one that matched the query
+    return (this as any).update(hit._id, partial, {
+      ...options,
+      routing: options.routing ?? hit._routing,
+      ifSeqNo: hit._seq_no,
+      ifPrimaryTerm: hit._primary_term,
+    });
+  }
+
   public static query<T extends Model>(this: new () => T): QueryBuilder<T> {
     const metadata = indexMetadataMap.get(this);
     if (!metadata) {
       throw new Error("[typesearch] No metadata found for model");
     }
-    return new QueryBuilderImpl<T>(opensearchClient, metadata.name!);
+    return new QueryBuilderImpl<T>(resolveClient(this), metadata.name!, this);
   }
 
   public static async search<T extends Model>(
     this: new () => T,
     body: Record<string, any>,
-    size?: number
+    size?: number,
+    options: RequestOptions = {}
   ) {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typensearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
     const metadata = indexMetadataMap.get(this);
 
-    const result = await opensearchClient.search({
-      index: metadata.name,
-      body,
-      size,
-    });
+    const result = await sendRequest(options, (...transport) =>
+      client.search(
+        {
+          index: metadata.name,
+          body,
+          size,
+          routing: options.routing,
+          preference: options.preference,
+          timeout: options.timeout,
+        },
+        ...transport
+      )
+    );
 
     return result;
   }
 
   public static async count<T extends Model>(
     this: new () => T,
-    body: Record<string, any>
+    body: Record<string, any>,
+    options: RequestOptions = {}
   ): Promise<number> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typesearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
     const metadata = indexMetadataMap.get(this);
 
-    const result = await opensearchClient.count({
-      index: metadata.name,
-      body,
-    });
+    const result = await sendRequest(options, (...transport) =>
+      client.count(
+        {
+          index: metadata.name,
+          body,
+          routing: options.routing,
+          preference: options.preference,
+        },
+        ...transport
+      )
+    );
 
     return result.body.count;
   }
 
-  public async save(refresh?: boolean): Promise<void> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typesearch] You have to call `initialize` method first"
-      );
-    }
+  public async save(options?: boolean | RequestOptions): Promise<void> {
+    const metadata = indexMetadataMap.get(this.constructor);
+    await this.saveDocument(options, metadata?.optimisticConcurrency);
+  }
+
+  // Saves with if_seq_no/if_primary_term when `concurrency` is set, whatever the model opted into
+  private async saveDocument(
+    options: boolean | RequestOptions | undefined,
+    concurrency: boolean
+  ): Promise<void> {
+    const client = resolveClient(this.constructor);
+    const requestOptions = toRequestOptions(options);
 
     if (!this._id) {
       throw new Error(
@@ -301,67 +602,193 @@ export abstract class Model {
       throw new Error("[typesearch] save: No metadata found for schema");
     }
 
-    const { _id, ...others } = this;
+    applyTimestamps(this, metadata, "update");
+    await runHooks(this, "beforeSave");
+    await validateDocument(this, metadata);
+
+    const {
+      _id,
+      _score,
+      _version,
+      _seq_no,
+      _primary_term,
+      _highlight,
+      _sort,
+      ...others
+    } = this;
     try {
-      const { body } = await opensearchClient.update({
-        index: metadata.name!,
-        id: this._id,
-        body: {
-          doc: others,
-        },
-        refresh,
-      });
+      const { body } = await sendRequest(requestOptions, (...transport) =>
+        client.update(
+          {
+            index: metadata.name!,
+            id: this._id,
+            body: {
+              doc: others,
+            },
+            refresh: requestOptions.refresh,
+            routing: resolveRouting(
+              metadata,
+              "save",
+              requestOptions.routing,
+              this
+            ),
+            timeout: requestOptions.timeout,
+            ...this.concurrencyParams(concurrency, "save"),
+          },
+          ...transport
+        )
+      );
 
       if (body.result !== "updated" && body.result !== "noop") {
         throw new Error(
           `[typesearch] save: Failed to update document: ${body.result}`
         );
       }
+
+      await QueryCache.getInstance().invalidateIndex(metadata.name!, client);
+      this.trackVersion(body);
     } catch (error: any) {
       if (error.statusCode === 404) {
         throw new Error(
           `[typesearch] save: Document with id ${this._id} not found`
         );
       }
+      if (isVersionConflict(error)) {
+        throw new VersionConflictError(
+          metadata.name!,
+          this._id,
+          error.meta?.body?.error?.reason
+        );
+      }
       throw error;
     }
+
+    await runHooks(this, "afterSave");
   }
 
-  public async delete(): Promise<ApiResponse> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typesearch] You have to call `initialize` method first"
-      );
-    }
+  public async delete(options: RequestOptions = {}): Promise<ApiResponse> {
+    const client = resolveClient(this.constructor);
 
     const metadata = indexMetadataMap.get(this.constructor);
     if (!metadata) {
       throw new Error("[typesearch] delete: No metadata found for schema");
     }
 
-    return opensearchClient.delete({
-      index: metadata.name,
-      id: this._id,
-    });
+    await runHooks(this, "beforeDelete");
+
+    let response: ApiResponse;
+    try {
+      response = await sendRequest(options, (...transport) =>
+        client.delete(
+          {
+            index: metadata.name,
+            id: this._id,
+            refresh: options.refresh,
+            routing: resolveRouting(metadata, "delete", options.routing, this),
+            timeout: options.timeout,
+            ...this.concurrencyParams(metadata.optimisticConcurrency, "delete"),
+          },
+          ...transport
+        )
+      );
+      await QueryCache.getInstance().invalidateIndex(metadata.name!, client);
+    } catch (error: any) {
+      if (isVersionConflict(error)) {
+        throw new VersionConflictError(
+          metadata.name!,
+          this._id,
+          error.meta?.body?.error?.reason
+        );
+      }
+      throw error;
+    }
+
+    await runHooks(this, "afterDelete");
+    return response;
+  }
+
+  public static async retryOnConflict<T extends Model>(
+    this: new () => T,
+    id: string,
+    mutator: (doc: T) => void | Promise<void>,
+    options: RetryOnConflictOptions = {}
+  ): Promise<T> {
+    const retries = options.retries ?? 3;
+
+    for (let attempt = 0; ; attempt++) {
+      const doc = await (this as any).get(id, { routing: options.routing });
+      if (!doc) {
+        throw new Error(
+          `[typensearch] retryOnConflict: Document with id ${id} not found`
+        );
+      }
+
+      await mutator(doc);
+
+      try {
+        // Conflicts are only detected when the save is conditional
+        await doc.saveDocument(
+          { refresh: options.refresh, routing: options.routing },
+          true
+        );
+        return doc;
+      } catch (error) {
+        if (!(error instanceof VersionConflictError) || attempt >= retries) {
+          throw error;
+        }
+      }
+    }
   }
 
-  public static async delete(id: string, refresh?: boolean): Promise<void> {
-    if (!opensearchClient) {
+  private concurrencyParams(enabled: boolean, operation: string) {
+    if (!enabled) {
+      return {};
+    }
+    // An unconditional write would silently overwrite concurrent changes
+    if (this._seq_no === undefined || this._primary_term === undefined) {
       throw new Error(
-        "[typesearch] You have to call `initialize` method first"
+        `[typensearch] ${operation}: Document "${this._id}" has no _seq_no and _primary_term; load it before writing with optimistic concurrency`
       );
     }
+    return {
+      if_seq_no: this._seq_no,
+      if_primary_term: this._primary_term,
+    };
+  }
 
-    const metadata = indexMetadataMap.get(this.constructor);
+  private trackVersion(body: any): void {
+    if (body._version !== undefined) this._version = body._version;
+    if (body._seq_no !== undefined) this._seq_no = body._seq_no;
+    if (body._primary_term !== undefined) {
+      this._primary_term = body._primary_term;
+    }
+  }
+
+  public static async delete(
+    id: string,
+    options?: boolean | RequestOptions
+  ): Promise<void> {
+    const client = resolveClient(this);
+    const requestOptions = toRequestOptions(options);
+
+    const metadata = indexMetadataMap.get(this.prototype.constructor);
     if (!metadata) {
       throw new Error("[typesearch] delete: No metadata found for schema");
     }
 
-    const { body } = await opensearchClient.delete({
-      index: metadata.name,
-      id,
-      refresh,
-    });
+    const { body } = await sendRequest(requestOptions, (...transport) =>
+      client.delete(
+        {
+          index: metadata.name,
+          id,
+          refresh: requestOptions.refresh,
+          routing: resolveRouting(metadata, "delete", requestOptions.routing),
+          timeout: requestOptions.timeout,
+        },
+        ...transport
+      )
+    );
+    await QueryCache.getInstance().invalidateIndex(metadata.name!, client);
 
     if (body.result !== "deleted") {
       throw body;
@@ -377,9 +804,36 @@ export abstract class Model {
     return batchProcessor.bulkIndex(this, docs, options);
   }
 
+  public static async bulkCreate<T extends Model>(
+    this: new () => T,
+    docs: Partial<T>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResponse> {
+    const batchProcessor = BatchProcessor.getInstance();
+    return batchProcessor.bulkCreate(this, docs, options);
+  }
+
+  public static async bulkUpdate<T extends Model>(
+    this: new () => T,
+    updates: BulkUpdate<T>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResponse> {
+    const batchProcessor = BatchProcessor.getInstance();
+    return batchProcessor.bulkUpdate(this, updates, options);
+  }
+
+  public static async bulkUpsert<T extends Model>(
+    this: new () => T,
+    docs: Partial<T>[],
+    options: BulkOptions = {}
+  ): Promise<BulkResponse> {
+    const batchProcessor = BatchProcessor.getInstance();
+    return batchProcessor.bulkUpsert(this, docs, options);
+  }
+
   public static async bulkDelete<T extends Model>(
     this: new () => T,
-    ids: string[],
+    ids: DocumentRef[],
     options: BulkOptions = {}
   ): Promise<BulkResponse> {
     const batchProcessor = BatchProcessor.getInstance();
@@ -392,7 +846,10 @@ export abstract class Model {
       throw new Error("[typensearch] No metadata found for model");
     }
 
-    const currentMapping = await getCurrentMapping(metadata.name);
+    const currentMapping = await getCurrentMapping(
+      metadata.name,
+      resolveClient(this)
+    );
 
     return compareSchemas(metadata.name, currentMapping, metadata);
   }
@@ -401,11 +858,7 @@ export abstract class Model {
     this: typeof Model,
     options?: MigrationOptions
   ): Promise<MigrationResult> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typensearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
     const metadata = indexMetadataMap.get(this.prototype.constructor);
     const plan = await this.planMigration();
@@ -420,81 +873,33 @@ export abstract class Model {
       };
     }
 
-    return executeMigration(this, plan, options);
+    return executeMigration(this, plan, options, client);
   }
 
   public static async rollback(
     this: typeof Model,
     migrationId: string
   ): Promise<MigrationResult> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typensearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
-    return rollbackMigration(migrationId);
+    return rollbackMigration(migrationId, client);
   }
 
   public static async getMigrationHistory(
     this: typeof Model
   ): Promise<MigrationHistory[]> {
-    if (!opensearchClient) {
-      throw new Error(
-        "[typensearch] You have to call `initialize` method first"
-      );
-    }
+    const client = resolveClient(this);
 
-    return getMigrationHistory();
+    return getMigrationHistory(client);
   }
 
-  public validate(): void {
+  public async validate(): Promise<void> {
     const metadata = indexMetadataMap.get(this.constructor);
     if (!metadata) {
       throw new Error("[typesearch] No metadata found for model");
     }
 
-    for (const [propertyName, options] of Object.entries(metadata.properties)) {
-      const value = this[propertyName];
-
-      if (options.required && value === undefined) {
-        throw new Error(
-          `[typesearch] Required field "${propertyName}" is missing`
-        );
-      }
-
-      if (value !== undefined) {
-        if (options.validate && !options.validate(value)) {
-          throw new Error(
-            `[typesearch] Validation failed for field "${propertyName}"`
-          );
-        }
-
-        if (options.type === "object" || options.type === "nested") {
-          if (value && options.properties) {
-            for (const [subPropertyName, subOptions] of Object.entries(
-              options.properties
-            )) {
-              const subValue = value[subPropertyName];
-              if (subOptions.required && subValue === undefined) {
-                throw new Error(
-                  `[typesearch] Required field "${propertyName}.${subPropertyName}" is missing`
-                );
-              }
-              if (
-                subValue !== undefined &&
-                subOptions.validate &&
-                !subOptions.validate(subValue)
-              ) {
-                throw new Error(
-                  `[typesearch] Validation failed for field "${propertyName}.${subPropertyName}"`
-                );
-              }
-            }
-          }
-        }
-      }
-    }
+    await validateDocument(this, metadata);
   }
 
   public static getMapping() {
@@ -503,16 +908,6 @@ export abstract class Model {
       throw new Error("[typesearch] No metadata found for model");
     }
 
-    const mapping = {
-      properties: {} as Record<string, any>,
-    };
-
-    for (const [propertyName, options] of Object.entries(metadata.properties)) {
-      const { __meta, ...mappingOptions } = options;
-      mapping.properties[propertyName] =
-        convertOptionsToMappingProperties(mappingOptions);
-    }
-
-    return mapping;
+    return mappingFor(metadata);
   }
 }
@@ -18,8 +18,58 @@ import {
   DateHistogramOptions,
   AggregationBuilder,
   SearchOptions,
+  FieldPath,
+  FieldValue,
+  BoolQueryValue,
+  SortField,
+  HighlightOptions,
+  HydratedSearchResult,
+  IterateOptions,
+  CacheOptions,
 } from "./types";
 import { Client } from "@opensearch-project/opensearch";
+import { Readable } from "stream";
+import { QueryCache } from "./cache";
+import { hydrate } from "./util";
+import { runHooks } from "./hooks";
+import { indexMetadataMap } from "./decorator";
+
+function isRangeValue(value: any): value is RangeQueryOptions {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    ["gt", "gte", "lt", "lte"].some((key) => key in value)
+  );
+}
+
+// Routing values implied by a term/terms clause on `field`
+function clauseRouting(clause: any, field: string): string[] | undefined {
+  const term = clause?.term?.[field];
+  if (term !== undefined) {
+    return [String(typeof term === "object" ? term.value : term)];
+  }
+  const terms = clause?.terms?.[field];
+  if (Array.isArray(terms)) {
+    return terms.map(String);
+  }
+  return undefined;
+}
+
+// Derives routing from top-level or required bool clauses on the routing field
+function queryRouting(query: any, field: string): string | undefined {
+  const clauses = query?.bool
+    ? [...(query.bool.must || []), ...(query.bool.filter || [])]
+    : [query];
+  for (const clause of clauses) {
+    const values = clauseRouting(clause, field);
+    if (values && values.length > 0) {
+      return values.join(",");
+    }
+  }
+  return undefined;
+}
 
 export class BooleanQueryBuilderImpl<T> implements BooleanQueryBuilder<T> {
   private query: any = {
@@ -31,41 +81,27 @@ export class BooleanQueryBuilderImpl<T> implements BooleanQueryBuilder<T> {
     },
   };
 
-  must(
-    field: string,
-    value: any,
+  must<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T> {
-    this.query.bool.must.push({
-      term: {
-        [field]: {
-          value,
-          ...options,
-        },
-      },
-    });
+    this.query.bool.must.push(this.clause(field, value, options));
     return this;
   }
 
-  mustNot(
-    field: string,
-    value: any,
+  mustNot<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T> {
-    this.query.bool.must_not.push({
-      term: {
-        [field]: {
-          value,
-          ...options,
-        },
-      },
-    });
+    this.query.bool.must_not.push(this.clause(field, value, options));
     return this;
   }
 
-  should(
-    field: string,
-    value: any,
+  should<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T> {
     if (Array.isArray(value)) {
@@ -87,12 +123,12 @@ export class BooleanQueryBuilderImpl<T> implements BooleanQueryBuilder<T> {
     return this;
   }
 
-  filter(
-    field: string,
-    value: any,
+  filter<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T> {
-    if (typeof value === "object" && ("gte" in value || "lte" in value)) {
+    if (isRangeValue(value)) {
       this.query.bool.filter.push({
         range: {
           [field]: value,
@@ -111,22 +147,36 @@ export class BooleanQueryBuilderImpl<T> implements BooleanQueryBuilder<T> {
   getQuery(): any {
     return this.query;
   }
+
+  private clause(field: string, value: any, options?: QueryOptions): any {
+    if (isRangeValue(value)) {
+      return { range: { [field]: { ...value, ...options } } };
+    }
+    if (Array.isArray(value)) {
+      return { terms: { [field]: value, ...options } };
+    }
+    return { term: { [field]: { value, ...options } } };
+  }
 }
 
 export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   private query: any = { query: {} };
   private searchOptions: SearchOptions = {};
+  private cacheOptions?: CacheOptions;
+  private routingValue?: string;
   private client: Client;
   private indexName: string;
+  private modelClass?: new () => T;
 
-  constructor(client: Client, indexName: string) {
+  constructor(client: Client, indexName: string, modelClass?: new () => T) {
     this.client = client;
     this.indexName = indexName;
+    this.modelClass = modelClass;
   }
 
-  match(
-    field: string,
-    value: any,
+  match<P extends FieldPath<T>>(
+    field: P,
+    value: FieldValue<T, P>,
     options?: MatchQueryOptions
   ): QueryBuilder<T> {
     this.query.query = {
@@ -140,7 +190,11 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  term(field: string, value: any, options?: TermQueryOptions): QueryBuilder<T> {
+  term<P extends FieldPath<T>>(
+    field: P,
+    value: FieldValue<T, P>,
+    options?: TermQueryOptions
+  ): QueryBuilder<T> {
     this.query.query = {
       term: {
         [field]: {
@@ -152,7 +206,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  range(field: string, options: RangeQueryOptions): QueryBuilder<T> {
+  range(field: FieldPath<T>, options: RangeQueryOptions): QueryBuilder<T> {
     this.query.query = {
       range: {
         [field]: options,
@@ -161,7 +215,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  exists(field: string): QueryBuilder<T> {
+  exists(field: FieldPath<T>): QueryBuilder<T> {
     this.query.query = {
       exists: { field },
     };
@@ -169,7 +223,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   }
 
   prefix(
-    field: string,
+    field: FieldPath<T>,
     value: string,
     options?: PrefixQueryOptions
   ): QueryBuilder<T> {
@@ -184,7 +238,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  wildcard(field: string, value: string): QueryBuilder<T> {
+  wildcard(field: FieldPath<T>, value: string): QueryBuilder<T> {
     this.query.query = {
       wildcard: {
         [field]: value,
@@ -193,7 +247,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  regexp(field: string, value: string): QueryBuilder<T> {
+  regexp(field: FieldPath<T>, value: string): QueryBuilder<T> {
     this.query.query = {
       regexp: {
         [field]: value,
@@ -203,7 +257,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   }
 
   fuzzy(
-    field: string,
+    field: FieldPath<T>,
     value: string,
     options?: FuzzyQueryOptions
   ): QueryBuilder<T> {
@@ -225,7 +279,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  geoDistance(field: string, options: GeoDistanceOptions): QueryBuilder<T> {
+  geoDistance(
+    field: FieldPath<T>,
+    options: GeoDistanceOptions
+  ): QueryBuilder<T> {
     this.query.query = {
       geo_distance: {
         distance: options.distance,
@@ -239,7 +296,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   }
 
   geoBoundingBox(
-    field: string,
+    field: FieldPath<T>,
     options: GeoBoundingBoxOptions
   ): QueryBuilder<T> {
     this.query.query = {
@@ -253,7 +310,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  hasParent<P>(
+  hasParent<P = any>(
     type: string,
     queryFn: (q: QueryBuilder<P>) => void
   ): QueryBuilder<T> {
@@ -268,7 +325,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  hasChild<C>(
+  hasChild<C = any>(
     type: string,
     queryFn: (q: QueryBuilder<C>) => void
   ): QueryBuilder<T> {
@@ -283,8 +340,18 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
+  parentId(type: string, id: string): QueryBuilder<T> {
+    this.query.query = {
+      parent_id: {
+        type,
+        id,
+      },
+    };
+    return this;
+  }
+
   nested(
-    path: string,
+    path: FieldPath<T>,
     queryFn: (builder: QueryBuilder<T>) => void
   ): QueryBuilder<T> {
     const nestedQuery = new QueryBuilderImpl<T>(this.client, this.indexName);
@@ -299,7 +366,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
   }
 
   // Search options
-  sort(field: string, order?: "asc" | "desc" | SortOptions): QueryBuilder<T> {
+  sort(
+    field: SortField<T>,
+    order?: "asc" | "desc" | SortOptions
+  ): QueryBuilder<T> {
     if (!this.searchOptions.sort) {
       this.searchOptions.sort = [];
     }
@@ -338,6 +408,27 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
+  highlight(
+    fields: FieldPath<T>[],
+    options?: HighlightOptions
+  ): QueryBuilder<T> {
+    this.searchOptions.highlight = {
+      ...options,
+      fields: Object.fromEntries(fields.map((field) => [field, {}])),
+    };
+    return this;
+  }
+
+  cache(options: CacheOptions = {}): QueryBuilder<T> {
+    this.cacheOptions = { enabled: true, ...options };
+    return this;
+  }
+
+  routing(value: string): QueryBuilder<T> {
+    this.routingValue = value;
+    return this;
+  }
+
   // Aggregations
   aggs(name: string, aggFn: (a: AggregationBuilder) => void): QueryBuilder<T> {
     const aggBuilder = new AggregationBuilderImpl();
@@ -379,7 +470,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  terms(name: string, options: BucketAggregationOptions): QueryBuilder<T> {
+  terms(
+    name: string,
+    options: BucketAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
     }
@@ -395,7 +489,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
 
   dateHistogram(
     name: string,
-    options: DateHistogramAggregationOptions
+    options: DateHistogramAggregationOptions<FieldPath<T>>
   ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
@@ -411,7 +505,7 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
 
   rangeAggregation(
     name: string,
-    options: RangeAggregationOptions
+    options: RangeAggregationOptions<FieldPath<T>>
   ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
@@ -425,7 +519,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  avg(name: string, options: MetricAggregationOptions): QueryBuilder<T> {
+  avg(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
     }
@@ -435,7 +532,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  sum(name: string, options: MetricAggregationOptions): QueryBuilder<T> {
+  sum(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
     }
@@ -445,7 +545,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  min(name: string, options: MetricAggregationOptions): QueryBuilder<T> {
+  min(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
     }
@@ -455,7 +558,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  max(name: string, options: MetricAggregationOptions): QueryBuilder<T> {
+  max(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
     }
@@ -465,7 +571,10 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
-  count(name: string, options: MetricAggregationOptions): QueryBuilder<T> {
+  count(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T> {
     if (!this.query.aggs) {
       this.query.aggs = {};
     }
@@ -475,8 +584,177 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     return this;
   }
 
+  children(
+    name: string,
+    type: string,
+    aggFn?: (a: AggregationBuilder) => void
+  ): QueryBuilder<T> {
+    if (!this.query.aggs) {
+      this.query.aggs = {};
+    }
+    // Sub-aggregations added with subAggs() run over the child documents
+    const aggBuilder = new AggregationBuilderImpl();
+    aggFn?.(aggBuilder);
+    const { aggs } = aggBuilder.getAggregation();
+    this.query.aggs[name] = {
+      children: { type },
+      ...(aggs && { aggs }),
+    };
+    return this;
+  }
+
   // Execution
   async execute(): Promise<SearchResult<T>> {
+    return this.search(this.buildSearchBody());
+  }
+
+  async executeAndHydrate(): Promise<HydratedSearchResult<T>> {
+    if (!this.modelClass) {
+      throw new Error(
+        "[typensearch] executeAndHydrate: No model class bound to this query"
+      );
+    }
+
+    const result = await this.search({
+      ...this.buildSearchBody(),
+      version: true,
+      seq_no_primary_term: true,
+    });
+
+    const hits: T[] = [];
+    for (const hit of result.hits.hits) {
+      hits.push(await this.load(hit));
+    }
+
+    return {
+      total: result.hits.total,
+      max_score: result.hits.max_score,
+      hits,
+      took: result.took,
+      timed_out: result.timed_out,
+      aggregations: result.aggregations,
+    };
+  }
+
+  async find(): Promise<T[]> {
+    const result = await this.executeAndHydrate();
+    return result.hits;
+  }
+
+  async *iterate(options: IterateOptions = {}): AsyncIterableIterator<T> {
+    const batchSize = options.batchSize ?? 1000;
+    const keepAlive = options.keepAlive ?? "1m";
+    const tiebreaker = options.tiebreaker ?? "_id";
+    // Paging replaces from/size, and aggregations would be recomputed per page
+    const { from, size, aggs, ...query } = this.buildSearchBody();
+    // Loaded instances keep their versions, like the ones from find()
+    const body = { ...query, version: true, seq_no_primary_term: true };
+    const routing = this.routingFor(body);
+
+    let pitId: string | undefined;
+    if (options.strategy !== "scroll") {
+      try {
+        const response = await this.client.createPit({
+          index: this.indexName,
+          keep_alive: keepAlive,
+          routing,
+        });
+        pitId = response.body.pit_id;
+      } catch (error) {
+        if (options.strategy === "pit") {
+          throw error;
+        }
+      }
+    }
+
+    if (!pitId) {
+      yield* this.scroll(body, batchSize, keepAlive, routing);
+      return;
+    }
+
+    try {
+      let searchAfter: any[] | undefined;
+      while (true) {
+        const response = await this.client.search({
+          body: {
+            ...body,
+            size: batchSize,
+            sort: [...(body.sort || []), { [tiebreaker]: "asc" }],
+            pit: { id: pitId, keep_alive: keepAlive },
+            ...(searchAfter && { search_after: searchAfter }),
+          },
+        });
+        pitId = response.body.pit_id ?? pitId;
+
+        const hits = response.body.hits.hits;
+        for (const hit of hits) {
+          yield await this.load(hit);
+        }
+        if (hits.length < batchSize) {
+          return;
+        }
+        searchAfter = hits[hits.length - 1].sort;
+      }
+    } finally {
+      await this.client
+        .deletePit({ body: { pit_id: [pitId] } })
+        .catch(() => undefined);
+    }
+  }
+
+  stream(options?: IterateOptions): Readable {
+    return Readable.from(this.iterate(options));
+  }
+
+  private async *scroll(
+    body: any,
+    batchSize: number,
+    keepAlive: string,
+    routing?: string
+  ): AsyncIterableIterator<T> {
+    let response = await this.client.search({
+      index: this.indexName,
+      scroll: keepAlive,
+      routing,
+      body: { ...body, size: batchSize, sort: body.sort || ["_doc"] },
+    });
+    let scrollId: string | undefined = response.body._scroll_id;
+
+    try {
+      while (true) {
+        const hits = response.body.hits.hits;
+        for (const hit of hits) {
+          yield await this.load(hit);
+        }
+        if (hits.length < batchSize) {
+          return;
+        }
+
+        response = await this.client.scroll({
+          scroll_id: scrollId,
+          scroll: keepAlive,
+        });
+        scrollId = response.body._scroll_id ?? scrollId;
+      }
+    } finally {
+      if (scrollId) {
+        await this.client
+          .clearScroll({ body: { scroll_id: [scrollId] } })
+          .catch(() => undefined);
+      }
+    }
+  }
+
+  private async load(hit: any): Promise<T> {
+    if (!this.modelClass) {
+      return hit._source;
+    }
+    const instance = hydrate(this.modelClass, hit);
+    await runHooks(instance, "afterLoad");
+    return instance;
+  }
+
+  private buildSearchBody(): any {
     const searchBody = {
       ...this.query,
       ...this.searchOptions,
@@ -486,9 +764,30 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
       searchBody.query = { match_all: {} };
     }
 
+    return searchBody;
+  }
+
+  private async search(searchBody: any): Promise<SearchResult<T>> {
+    const cacheKey = this.cacheKey(searchBody);
+    if (!cacheKey) {
+      return this.request(searchBody);
+    }
+
+    return QueryCache.getInstance().fetch(
+      cacheKey,
+      () => this.request(searchBody),
+      {
+        ttl: this.cacheOptions!.ttl,
+        staleWhileRevalidate: this.cacheOptions!.staleWhileRevalidate,
+      }
+    );
+  }
+
+  private async request(searchBody: any): Promise<SearchResult<T>> {
     const response = await this.client.search({
       index: this.indexName,
       body: searchBody,
+      routing: this.routingFor(searchBody),
     });
 
     return {
@@ -503,6 +802,13 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
           _id: hit._id,
           _score: hit._score,
           _source: hit._source,
+          ...(hit._version !== undefined && { _version: hit._version }),
+          ...(hit._seq_no !== undefined && {
+            _seq_no: hit._seq_no,
+            _primary_term: hit._primary_term,
+          }),
+          ...(hit.highlight && { highlight: hit.highlight }),
+          ...(hit.sort && { sort: hit.sort }),
         })),
       },
       took: response.body.took,
@@ -511,6 +817,35 @@ export class QueryBuilderImpl<T> implements QueryBuilder<T> {
     };
   }
 
+  // Keys are prefixed with the index name and client so writes can invalidate them
+  private cacheKey(searchBody: any): string | undefined {
+    if (!this.cacheOptions?.enabled) {
+      return undefined;
+    }
+    const queryCache = QueryCache.getInstance();
+    if (this.cacheOptions.key) {
+      return `${queryCache.keyPrefix(this.indexName, this.client)}${
+        this.cacheOptions.key
+      }`;
+    }
+    const routing = this.routingFor(searchBody);
+    return queryCache.generateKey(
+      this.indexName,
+      routing === undefined ? searchBody : { ...searchBody, routing },
+      this.client
+    );
+  }
+
+  private routingFor(searchBody: any): string | undefined {
+    if (this.routingValue !== undefined) {
+      return this.routingValue;
+    }
+    const field = this.modelClass
+      ? indexMetadataMap.get(this.modelClass)?.routingField
+      : undefined;
+    return field ? queryRouting(searchBody.query, field) : undefined;
+  }
+
   getQuery(): any {
     return this.query;
   }
@@ -1,3 +1,6 @@
+import { Readable } from "stream";
+import { Client } from "@opensearch-project/opensearch";
+
 export type FieldType =
   | "text"
   | "keyword"
@@ -268,14 +271,39 @@ export interface JoinFieldOptions extends BaseFieldOptions {
   eager_global_ordinals?: boolean;
 }
 
-export interface FieldOptions {
+// true/undefined pass; false, a message or { valid: false } fail
+export type ValidatorResult =
+  | boolean
+  | string
+  | void
+  | { valid: boolean; message?: string; path?: string };
+
+export type FieldValidator = (
+  value: any,
+  doc: any
+) => ValidatorResult | Promise<ValidatorResult>;
+
+export type DocumentValidator<T = any> = (
+  doc: T
+) => ValidatorResult | Promise<ValidatorResult>;
+
+export interface ValidationRules {
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp | string;
+  enum?: readonly any[];
+}
+
+export interface FieldOptions extends ValidationRules {
   type: FieldType;
   required?: boolean;
   default?: any;
   options?: Partial<FieldOptions>;
   fields?: { [fieldName: string]: FieldOptions };
   properties?: { [propertyName: string]: FieldOptions };
-  validate?: (value: any) => boolean;
+  validate?: FieldValidator;
   boost?: number;
   relations?: Record<string, string | string[]>;
   analyzer?: string;
@@ -284,7 +312,7 @@ export interface FieldOptions {
   __meta?: {
     required?: boolean;
     default?: any;
-    validate?: (value: any) => boolean;
+    validate?: FieldValidator;
   };
 }
 
@@ -294,18 +322,87 @@ export interface IndexOptions {
   numberOfReplicas?: number;
   settings?: Record<string, any>;
   dynamic?: "strict" | "true" | "false" | boolean;
+  optimisticConcurrency?: boolean;
+  timestamps?: boolean | TimestampFields;
+  connection?: string;
+  routingField?: string;
+}
+
+export interface TimestampFields {
+  createdAt?: string;
+  updatedAt?: string;
 }
 
+export type HookEvent =
+  | "beforeIndex"
+  | "afterIndex"
+  | "beforeSave"
+  | "afterSave"
+  | "beforeDelete"
+  | "afterDelete"
+  | "beforeUpdateMany"
+  | "afterUpdateMany"
+  | "afterLoad";
+
 export interface IndexMetadata {
   name?: string;
   numberOfShards?: number;
   numberOfReplicas?: number;
+  optimisticConcurrency?: boolean;
+  connection?: string;
+  routingField?: string;
   properties: {
     [propertyName: string]: FieldOptions;
   };
+  hooks?: Partial<Record<HookEvent, string[]>>;
+  timestamps?: TimestampFields;
+  validators?: DocumentValidator[];
+}
+
+export interface RetryOnConflictOptions {
+  retries?: number;
+  refresh?: boolean;
+  routing?: string;
+}
+
+export type DocumentRef = string | { id: string; routing?: string };
+
+export interface GetManyOptions extends RequestOptions {
+  source?: boolean | string[] | { includes?: string[]; excludes?: string[] };
+  preserveOrder?: boolean;
 }
 
-export interface UpdateOptions {
+export interface RequestOptions {
+  routing?: string;
+  refresh?: boolean | "wait_for";
+  timeout?: string;
+  preference?: string;
+  requestTimeout?: number | string;
+  signal?: AbortSignal;
+}
+
+export interface IndexChildOptions extends RequestOptions {
+  relation?: string; // Child relation name, required when the join field has several
+}
+
+// Value of a join field: the relation name, plus the parent id for children
+export type JoinValue = string | { name: string; parent?: string };
+
+export interface UpdateDocumentOptions<T = any> extends RequestOptions {
+  retryOnConflict?: number;
+  script?: {
+    source: string;
+    lang?: string;
+    params?: Record<string, any>;
+  };
+  upsert?: boolean | Partial<T>;
+  ifSeqNo?: number;
+  ifPrimaryTerm?: number;
+}
+
+// By-query options are sent as query parameters, apart from the transport-level ones
+export interface UpdateOptions
+  extends Pick<RequestOptions, "requestTimeout" | "signal"> {
   allowNoIndices?: boolean;
   analyzer?: string;
   analyzeWildcard?: boolean;
@@ -348,7 +445,8 @@ export interface UpdateOptions {
   };
 }
 
-export interface DeleteOptions {
+export interface DeleteOptions
+  extends Pick<RequestOptions, "requestTimeout" | "signal"> {
   _sourceExclude?: string | string[];
   _sourceInclude?: string | string[];
   analyzer?: string;
@@ -397,37 +495,133 @@ export interface BulkOperationError {
   index: string;
   id: string;
   status: number;
+  failures?: ValidationFailure[]; // Set when the document failed validation
+}
+
+export type BulkOperationType = "index" | "create" | "update" | "delete";
+
+export interface BulkItemResult {
+  _index: string;
+  _id: string;
+  _version?: number;
+  result?: string; // e.g. "created", "updated", "noop" or "deleted"
+  status: number;
+  error?: BulkOperationError;
 }
 
 export interface BulkResponse {
   took: number;
   errors: boolean;
-  items: Array<{
-    index?: {
-      _index: string;
-      _id: string;
-      _version?: number;
-      result?: string;
-      status: number;
-      error?: BulkOperationError;
-    };
-    delete?: {
-      _index: string;
-      _id: string;
-      _version?: number;
-      result?: string;
-      status: number;
-      error?: BulkOperationError;
-    };
-  }>;
+  // Each item has a single key named after the operation it answers
+  items: Array<{ [operation in BulkOperationType]?: BulkItemResult }>;
+  failures?: BulkFailureReport; // Set when some items failed
+}
+
+export interface BulkFailure {
+  operation: BulkOperationType;
+  index: string;
+  id?: string;
+  status: number;
+  error: BulkOperationError;
+  attempts: number; // Bulk requests that included the item, 0 if it was never sent
+}
+
+export interface BulkFailureReport {
+  retryable: BulkFailure[]; // Still failing after the last attempt, e.g. 429 rejections
+  permanent: BulkFailure[]; // Not worth retrying, e.g. mapping errors or version conflicts
+}
+
+export interface BulkRetryOptions {
+  maxAttempts?: number; // Including the first request, 1 disables retries
+  initialDelay?: number; // Milliseconds before the first retry
+  maxDelay?: number;
+  factor?: number; // Delay multiplier per attempt
+  jitter?: boolean; // Wait a random time up to the computed delay
+  retryableStatuses?: number[];
+}
+
+export type BulkResponseItem = BulkResponse["items"][number];
+
+export interface BatchProcessorOptions {
+  client?: Client; // Send every operation here instead of to each model's client
+  batchSize?: number;
+  flushInterval?: number; // Milliseconds between auto flushes once started
+  refresh?: boolean | "wait_for"; // Refresh policy of every bulk request
+  maxBatchBytes?: number;
+  maxConcurrentRequests?: number;
+  maxQueueSize?: number;
+  retry?: BulkRetryOptions;
+  deadLetterSink?: DeadLetterHandler;
+}
+
+// Action line of a bulk request
+export interface BulkAction {
+  index?: {
+    _index: string;
+    _id?: string;
+    routing?: string;
+  };
+  create?: {
+    _index: string;
+    _id?: string;
+    routing?: string;
+  };
+  update?: {
+    _index: string;
+    _id: string;
+    routing?: string;
+    retry_on_conflict?: number;
+  };
+  delete?: {
+    _index: string;
+    _id: string;
+    routing?: string;
+  };
+}
+
+export interface BulkUpdate<T = any> {
+  id: string;
+  doc?: Partial<T>; // Fields to merge into the document
+  script?: UpdateDocumentOptions["script"];
+  upsert?: boolean | Partial<T>; // Document to create when missing, true to use doc
+  docAsUpsert?: boolean; // Create the document from doc as is when missing
+  routing?: string;
+  retryOnConflict?: number;
 }
 
+export interface DeadLetter {
+  action: BulkAction;
+  doc?: Record<string, any>; // Source line as it was sent, absent for deletes
+  errorType: string;
+  reason: string;
+  status?: number; // Absent when the request failed without a response
+  attempts: number;
+  failedAt: string; // ISO timestamp
+  connection?: string; // Named connection the operation was sent through
+}
+
+/**
+ * Receives bulk operations that still failed once retries were exhausted, so
+ * they can be inspected and resubmitted with `replayDeadLetters()`.
+ */
+export interface DeadLetterSink {
+  write(letters: DeadLetter[]): void | Promise<void>;
+}
+
+export type DeadLetterHandler =
+  | DeadLetterSink
+  | ((letters: DeadLetter[]) => void | Promise<void>);
+
 export interface BulkOptions {
   refresh?: boolean;
   timeout?: string;
   waitForActiveShards?: number | "all";
 }
 
+export interface ReplayOptions extends BulkOptions {
+  client?: Client; // Sends every letter to this client
+}
+
 export interface MigrationOptions {
   dryRun?: boolean;
   backup?: boolean;
@@ -522,6 +716,22 @@ export interface SortOptions {
   missing?: "_last" | "_first" | any;
 }
 
+export interface HighlightOptions {
+  pre_tags?: string[];
+  post_tags?: string[];
+  fragment_size?: number;
+  number_of_fragments?: number;
+  type?: "unified" | "plain" | "fvh";
+  require_field_match?: boolean;
+}
+
+export interface IterateOptions {
+  batchSize?: number;
+  keepAlive?: string;
+  tiebreaker?: string;
+  strategy?: "auto" | "pit" | "scroll";
+}
+
 export interface SearchOptions {
   from?: number;
   size?: number;
@@ -531,6 +741,9 @@ export interface SearchOptions {
   timeout?: string;
   terminate_after?: number;
   aggs?: Record<string, any>;
+  highlight?: HighlightOptions & {
+    fields: Record<string, HighlightOptions>;
+  };
 }
 
 export interface SearchResult<T> {
@@ -545,6 +758,11 @@ export interface SearchResult<T> {
       _id: string;
       _score: number;
       _source: T;
+      _version?: number;
+      _seq_no?: number;
+      _primary_term?: number;
+      highlight?: Record<string, string[]>;
+      sort?: any[];
     }>;
   };
   took: number;
@@ -552,6 +770,18 @@ export interface SearchResult<T> {
   aggregations?: Record<string, any>;
 }
 
+export interface HydratedSearchResult<T> {
+  total: {
+    value: number;
+    relation: "eq" | "gte";
+  };
+  max_score: number | null;
+  hits: T[];
+  took: number;
+  timed_out: boolean;
+  aggregations?: Record<string, any>;
+}
+
 export interface AggregationResult {
   value?: number;
   doc_count?: number;
@@ -563,8 +793,8 @@ export interface AggregationResult {
   [key: string]: any;
 }
 
-export interface MetricAggregationOptions {
-  field: string;
+export interface MetricAggregationOptions<F extends string = string> {
+  field: F;
   script?: {
     source: string;
     lang?: string;
@@ -573,8 +803,8 @@ export interface MetricAggregationOptions {
   missing?: any;
 }
 
-export interface BucketAggregationOptions {
-  field: string;
+export interface BucketAggregationOptions<F extends string = string> {
+  field: F;
   size?: number;
   order?: {
     [key: string]: "asc" | "desc";
@@ -585,8 +815,8 @@ export interface BucketAggregationOptions {
   missing?: any;
 }
 
-export interface DateHistogramAggregationOptions
-  extends BucketAggregationOptions {
+export interface DateHistogramAggregationOptions<F extends string = string>
+  extends BucketAggregationOptions<F> {
   calendar_interval?:
     | "minute"
     | "hour"
@@ -602,7 +832,8 @@ export interface DateHistogramAggregationOptions
   keyed?: boolean;
 }
 
-export interface RangeAggregationOptions extends BucketAggregationOptions {
+export interface RangeAggregationOptions<F extends string = string>
+  extends BucketAggregationOptions<F> {
   ranges: Array<{
     from?: number;
     to?: number;
@@ -643,27 +874,162 @@ export interface CacheOptions {
   enabled?: boolean;
   ttl?: number; // Time to live in milliseconds
   key?: string; // Custom cache key
+  staleWhileRevalidate?: number; // Serve expired results this long (ms) while refreshing
+}
+
+export interface CacheFetchOptions {
+  ttl?: number; // Time to live in milliseconds
+  staleWhileRevalidate?: number; // Extra milliseconds an expired result may be served
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Storage backend for QueryCache. Values are plain JSON-serializable search
+ * results, so a store may keep them in process or serialize them to a shared
+ * service such as Redis. Keys start with the index name followed by ":".
+ */
+export interface CacheStore {
+  /** Returns the value, or undefined when it is missing or expired. */
+  get<T = any>(key: string): Promise<T | undefined>;
+  /** Stores a value that expires after `ttl` milliseconds. */
+  set<T = any>(key: string, value: T, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Removes every key starting with `prefix`; an empty prefix removes all keys. */
+  deleteByPrefix(prefix: string): Promise<void>;
+  /** Removes expired entries. Stores with native expiry can omit it. */
+  prune?(): Promise<void>;
+  /** Reports eviction and size statistics, if the store tracks them. */
+  stats?(): Partial<Pick<CacheStats, "evictions" | "entries" | "bytes">>;
+}
+
+// Field paths
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+type ElementOf<V> = V extends readonly (infer U)[] ? U : V;
+type IsAny<V> = 0 extends 1 & V ? true : false;
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5];
+
+export type ValidationRule =
+  | "required"
+  | "type"
+  | "min"
+  | "max"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "enum"
+  | "validate"
+  | "document";
+
+export interface ValidationFailure {
+  path: string; // Dotted field path, with [i] for array elements
+  rule: ValidationRule;
+  value: any;
+  message: string;
 }
 
+// Search hit metadata attached to hydrated model instances
+export interface HitMetadata {
+  _score?: number | null;
+  _version?: number;
+  _seq_no?: number;
+  _primary_term?: number;
+  _highlight?: Record<string, string[]>;
+  _sort?: any[];
+}
+
+// Data properties of a document, without index signatures, methods and hit metadata
+export type DocumentFields<T> = {
+  [K in keyof T as string extends K
+    ? never
+    : number extends K
+    ? never
+    : K extends keyof HitMetadata
+    ? never
+    : T[K] extends (...args: any[]) => any
+    ? never
+    : K]: T[K];
+};
+
+type SubFieldPath<K extends string, V, D extends number> = IsAny<V> extends true
+  ? `${K}.${string}`
+  : V extends string
+  ? `${K}.${string}` // multi-field suffix such as "name.keyword"
+  : V extends Primitive | Date
+  ? never
+  : V extends object
+  ? `${K}.${FieldPath<V, PrevDepth[D]>}`
+  : never;
+
+// Dotted paths of T usable as a field name, e.g. "address.city" or "name.keyword"
+export type FieldPath<T, D extends number = 5> = IsAny<T> extends true
+  ? string
+  : [D] extends [never]
+  ? never
+  : {
+      [K in keyof DocumentFields<T> & string]:
+        | K
+        | SubFieldPath<K, ElementOf<NonNullable<DocumentFields<T>[K]>>, D>;
+    }[keyof DocumentFields<T> & string];
+
+// Type of the value stored at path P (array fields resolve to their element type)
+export type PathValue<T, P extends string> = IsAny<T> extends true
+  ? any
+  : P extends keyof DocumentFields<T>
+  ? ElementOf<NonNullable<DocumentFields<T>[P]>>
+  : P extends `${infer K}.${infer Rest}`
+  ? K extends keyof DocumentFields<T>
+    ? ElementOf<NonNullable<DocumentFields<T>[K]>> extends infer V
+      ? V extends string
+        ? string
+        : PathValue<V, Rest>
+      : never
+    : never
+  : never;
+
+// Value accepted in a query for path P; dates may also be given as strings or epoch millis
+export type FieldValue<T, P extends string> = PathValue<T, P> extends infer V
+  ? V extends Date
+    ? Date | string | number
+    : V
+  : never;
+
+export type BoolQueryValue<T, P extends string> =
+  | FieldValue<T, P>
+  | FieldValue<T, P>[]
+  | RangeQueryOptions;
+
+export type SortField<T> = FieldPath<T> | "_score" | "_doc";
+
 export interface QueryBuilder<T> {
   // Basic queries
-  match(
-    field: string,
-    value: any,
+  match<P extends FieldPath<T>>(
+    field: P,
+    value: FieldValue<T, P>,
     options?: MatchQueryOptions
   ): QueryBuilder<T>;
-  term(field: string, value: any, options?: TermQueryOptions): QueryBuilder<T>;
-  range(field: string, options: RangeQueryOptions): QueryBuilder<T>;
-  exists(field: string): QueryBuilder<T>;
+  term<P extends FieldPath<T>>(
+    field: P,
+    value: FieldValue<T, P>,
+    options?: TermQueryOptions
+  ): QueryBuilder<T>;
+  range(field: FieldPath<T>, options: RangeQueryOptions): QueryBuilder<T>;
+  exists(field: FieldPath<T>): QueryBuilder<T>;
   prefix(
-    field: string,
+    field: FieldPath<T>,
     value: string,
     options?: PrefixQueryOptions
   ): QueryBuilder<T>;
-  wildcard(field: string, value: string): QueryBuilder<T>;
-  regexp(field: string, value: string): QueryBuilder<T>;
+  wildcard(field: FieldPath<T>, value: string): QueryBuilder<T>;
+  regexp(field: FieldPath<T>, value: string): QueryBuilder<T>;
   fuzzy(
-    field: string,
+    field: FieldPath<T>,
     value: string,
     options?: FuzzyQueryOptions
   ): QueryBuilder<T>;
@@ -672,45 +1038,75 @@ export interface QueryBuilder<T> {
   bool(fn: (builder: BooleanQueryBuilder<T>) => void): QueryBuilder<T>;
 
   // Geo queries
-  geoDistance(field: string, options: GeoDistanceOptions): QueryBuilder<T>;
+  geoDistance(
+    field: FieldPath<T>,
+    options: GeoDistanceOptions
+  ): QueryBuilder<T>;
   geoBoundingBox(
-    field: string,
+    field: FieldPath<T>,
     options: GeoBoundingBoxOptions
   ): QueryBuilder<T>;
 
   // Join queries
-  hasParent<P>(
+  hasParent<P = any>(
     type: string,
     queryFn: (q: QueryBuilder<P>) => void
   ): QueryBuilder<T>;
-  hasChild<C>(
+  hasChild<C = any>(
     type: string,
     queryFn: (q: QueryBuilder<C>) => void
   ): QueryBuilder<T>;
+  parentId(type: string, id: string): QueryBuilder<T>;
   nested(
-    path: string,
+    path: FieldPath<T>,
     queryFn: (builder: QueryBuilder<T>) => void
   ): QueryBuilder<T>;
 
   // Aggregations
   aggs(name: string, aggFn: (a: AggregationBuilder) => void): QueryBuilder<T>;
-  avg(name: string, options: MetricAggregationOptions): QueryBuilder<T>;
-  sum(name: string, options: MetricAggregationOptions): QueryBuilder<T>;
-  min(name: string, options: MetricAggregationOptions): QueryBuilder<T>;
-  max(name: string, options: MetricAggregationOptions): QueryBuilder<T>;
-  count(name: string, options: MetricAggregationOptions): QueryBuilder<T>;
-  terms(name: string, options: BucketAggregationOptions): QueryBuilder<T>;
+  avg(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T>;
+  sum(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T>;
+  min(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T>;
+  max(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T>;
+  count(
+    name: string,
+    options: MetricAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T>;
+  children(
+    name: string,
+    type: string,
+    aggFn?: (a: AggregationBuilder) => void
+  ): QueryBuilder<T>;
+  terms(
+    name: string,
+    options: BucketAggregationOptions<FieldPath<T>>
+  ): QueryBuilder<T>;
   dateHistogram(
     name: string,
-    options: DateHistogramAggregationOptions
+    options: DateHistogramAggregationOptions<FieldPath<T>>
   ): QueryBuilder<T>;
   rangeAggregation(
     name: string,
-    options: RangeAggregationOptions
+    options: RangeAggregationOptions<FieldPath<T>>
   ): QueryBuilder<T>;
 
   // Search options
-  sort(field: string, order?: "asc" | "desc" | SortOptions): QueryBuilder<T>;
+  sort(
+    field: SortField<T>,
+    order?: "asc" | "desc" | SortOptions
+  ): QueryBuilder<T>;
   from(value: number): QueryBuilder<T>;
   size(value: number): QueryBuilder<T>;
   source(
@@ -718,31 +1114,41 @@ export interface QueryBuilder<T> {
   ): QueryBuilder<T>;
   timeout(value: string): QueryBuilder<T>;
   trackTotalHits(value: boolean | number): QueryBuilder<T>;
+  highlight(
+    fields: FieldPath<T>[],
+    options?: HighlightOptions
+  ): QueryBuilder<T>;
+  cache(options?: CacheOptions): QueryBuilder<T>;
+  routing(value: string): QueryBuilder<T>;
 
   // Execution
   execute(): Promise<SearchResult<T>>;
+  executeAndHydrate(): Promise<HydratedSearchResult<T>>;
+  find(): Promise<T[]>;
+  iterate(options?: IterateOptions): AsyncIterableIterator<T>;
+  stream(options?: IterateOptions): Readable;
   getQuery(): any;
 }
 
 export interface BooleanQueryBuilder<T> {
-  must(
-    field: string,
-    value: any,
+  must<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T>;
-  mustNot(
-    field: string,
-    value: any,
+  mustNot<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T>;
-  should(
-    field: string,
-    value: any,
+  should<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T>;
-  filter(
-    field: string,
-    value: any,
+  filter<P extends FieldPath<T>>(
+    field: P,
+    value: BoolQueryValue<T, P>,
     options?: QueryOptions
   ): BooleanQueryBuilder<T>;
   getQuery(): any;
@@ -1,3 +1,16 @@
+import {
+  TransportRequestOptions,
+  TransportRequestPromise,
+} from "@opensearch-project/opensearch/lib/Transport";
+import {
+  FieldOptions,
+  IndexMetadata,
+  RequestOptions,
+  UpdateDocumentOptions,
+} from "./types";
+import { validateDocument } from "./validation";
+import { runHooks } from "./hooks";
+
 export function convertOptionsToMappingProperties(input: any): any {
   if (typeof input !== "object" || input === null) {
     return input;
@@ -24,3 +37,253 @@ export function convertOptionsToMappingProperties(input: any): any {
 
   return output;
 }
+
+export function applyDefaults(target: any, metadata: IndexMetadata): void {
+  for (const [propertyName, options] of Object.entries(metadata.properties)) {
+    if (target[propertyName] === undefined && options.default !== undefined) {
+      target[propertyName] =
+        typeof options.default === "function"
+          ? options.default()
+          : options.default;
+    }
+  }
+}
+
+export function pickFields(source: any, metadata: IndexMetadata): any {
+  const doc: any = {};
+  for (const propertyName of Object.keys(metadata.properties)) {
+    if (propertyName in source) {
+      doc[propertyName] = source[propertyName];
+    }
+  }
+  return doc;
+}
+
+export function applyTimestamps(
+  target: any,
+  metadata: IndexMetadata,
+  operation: "create" | "update",
+  now: Date | string = new Date()
+): void {
+  const { createdAt, updatedAt } = metadata.timestamps || {};
+
+  if (operation === "create" && createdAt && target[createdAt] === undefined) {
+    target[createdAt] = now;
+  }
+  if (updatedAt) {
+    target[updatedAt] = now;
+  }
+}
+
+/**
+ * Builds the body of an update request. The changed fields are validated
+ * like a document whose other fields may be missing, and the upsert document
+ * like a new one. Throws a ValidationError listing every failure.
+ */
+export async function prepareUpdate(
+  partial: any,
+  options: Pick<UpdateDocumentOptions, "script" | "upsert">,
+  metadata: IndexMetadata
+): Promise<Record<string, any>> {
+  const changes = pickFields(partial, metadata);
+  delete changes._id;
+  await validateDocument(changes, metadata, true);
+  applyTimestamps(changes, metadata, "update");
+
+  const body: Record<string, any> = options.script
+    ? { script: options.script }
+    : { doc: changes };
+
+  if (options.upsert) {
+    const upsertDoc = pickFields(
+      options.upsert === true ? partial : options.upsert,
+      metadata
+    );
+    delete upsertDoc._id;
+    applyDefaults(upsertDoc, metadata);
+    applyTimestamps(upsertDoc, metadata, "create");
+    await validateDocument(upsertDoc, metadata);
+    body.upsert = upsertDoc;
+  }
+  return body;
+}
+
+export function hydrate<T>(modelClass: new () => T, hit: any): T {
+  const instance: any = new modelClass();
+  Object.assign(instance, hit._source);
+  instance._id = hit._id;
+
+  if (hit._score !== undefined) instance._score = hit._score;
+  if (hit._version !== undefined) instance._version = hit._version;
+  if (hit._seq_no !== undefined) instance._seq_no = hit._seq_no;
+  if (hit._primary_term !== undefined) {
+    instance._primary_term = hit._primary_term;
+  }
+  if (hit.highlight !== undefined) instance._highlight = hit.highlight;
+  if (hit.sort !== undefined) instance._sort = hit.sort;
+
+  return instance;
+}
+
+export function routingFor(
+  doc: any,
+  metadata: IndexMetadata
+): string | undefined {
+  const value = metadata.routingField
+    ? doc?.[metadata.routingField]
+    : undefined;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Explicit routing wins over the value of the routing field on `doc`
+export function resolveRouting(
+  metadata: IndexMetadata,
+  operation: string,
+  explicit?: string,
+  doc?: any
+): string | undefined {
+  const routing = explicit ?? routingFor(doc, metadata);
+  if (metadata.routingField && routing === undefined) {
+    throw new Error(
+      `[typensearch] ${operation}: Routing is required, set "${metadata.routingField}" or pass the routing option`
+    );
+  }
+  return routing;
+}
+
+export function mappingFor(metadata: IndexMetadata): Record<string, any> {
+  return {
+    ...(metadata.routingField && { _routing: { required: true } }),
+    properties: fieldMappings(metadata.properties),
+  };
+}
+
+// Keys of sub-field maps are field names, so they are kept as they are
+function fieldMappings(
+  fields: Record<string, FieldOptions>
+): Record<string, any> {
+  const mappings: Record<string, any> = {};
+  for (const [fieldName, options] of Object.entries(fields)) {
+    mappings[fieldName] = fieldMapping(options);
+  }
+  return mappings;
+}
+
+// Drops the options that only drive defaults and validation
+function fieldMapping(options: FieldOptions): Record<string, any> {
+  const {
+    required,
+    default: defaultValue,
+    validate,
+    __meta,
+    options: _options,
+    min,
+    max,
+    minLength,
+    maxLength,
+    pattern,
+    enum: allowed,
+    properties,
+    fields,
+    ...mappingOptions
+  } = options;
+  return {
+    ...convertOptionsToMappingProperties(mappingOptions),
+    ...(properties && { properties: fieldMappings(properties) }),
+    ...(fields && { fields: fieldMappings(fields) }),
+  };
+}
+
+export function joinFieldOf(
+  metadata: IndexMetadata
+): { field: string; relations: Record<string, string | string[]> } | undefined {
+  for (const [field, options] of Object.entries(metadata.properties)) {
+    if (options.type === "join") {
+      return { field, relations: options.relations || {} };
+    }
+  }
+  return undefined;
+}
+
+export function childRelations(
+  relations: Record<string, string | string[]>
+): string[] {
+  return Object.values(relations).flat();
+}
+
+// Sets the join field of a document indexed without one to the top-level parent relation
+export function applyJoinRelation(target: any, metadata: IndexMetadata): void {
+  const join = joinFieldOf(metadata);
+  if (!join || target[join.field] !== undefined) {
+    return;
+  }
+
+  const children = childRelations(join.relations);
+  const roots = Object.keys(join.relations).filter(
+    (name) => !children.includes(name)
+  );
+  if (roots.length === 1) {
+    target[join.field] = roots[0];
+  }
+}
+
+// Builds the instance that Model.index() and bulkIndex() send, before validation
+export async function prepareDocument<T>(
+  modelClass: new () => T,
+  doc: any,
+  metadata: IndexMetadata
+): Promise<T> {
+  const instance: any = new modelClass();
+  for (const propertyName of Object.keys(metadata.properties)) {
+    if (propertyName in doc) {
+      instance[propertyName] = doc[propertyName];
+    }
+  }
+  applyDefaults(instance, metadata);
+  applyJoinRelation(instance, metadata);
+
+  if (typeof doc._id !== "undefined") {
+    instance._id = doc._id;
+  }
+
+  applyTimestamps(instance, metadata, "create");
+  await runHooks(instance, "beforeIndex");
+  return instance;
+}
+
+export function toRequestOptions(
+  options?: boolean | RequestOptions
+): RequestOptions {
+  return typeof options === "boolean" ? { refresh: options } : options || {};
+}
+
+/**
+ * Sends a client request with the transport-level parts of `options`:
+ * `requestTimeout` and an abort signal.
+ */
+export function sendRequest<R>(
+  options: RequestOptions,
+  request: (
+    ...transport: TransportRequestOptions[]
+  ) => TransportRequestPromise<R>
+): Promise<R> {
+  // Only pass transport options when set, so the call signature is unchanged otherwise
+  const transport =
+    options.requestTimeout !== undefined
+      ? [{ requestTimeout: options.requestTimeout }]
+      : [];
+  const promise = request(...transport);
+
+  const { signal } = options;
+  if (!signal || typeof promise.abort !== "function") {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.abort();
+    return promise;
+  }
+
+  const onAbort = () => promise.abort();
+  signal.addEventListener("abort", onAbort, { once: true });
+  return promise.finally(() => signal.removeEventListener("abort", onAbort));
+}
@@ -0,0 +1,271 @@
+import { ValidationError } from "./errors";
+import {
+  FieldOptions,
+  FieldType,
+  IndexMetadata,
+  ValidationFailure,
+  ValidationRule,
+  ValidatorResult,
+} from "./types";
+
+interface ValidationContext {
+  root: any;
+  errors: ValidationFailure[];
+  partial: boolean; // Missing fields are allowed, as in partial updates
+}
+
+const INTEGER_TYPES: FieldType[] = ["long", "integer", "short", "byte"];
+const NUMBER_TYPES: FieldType[] = [
+  ...INTEGER_TYPES,
+  "double",
+  "float",
+  "half_float",
+  "scaled_float",
+];
+const STRING_TYPES: FieldType[] = [
+  "text",
+  "keyword",
+  "search_as_you_type",
+  "ip",
+];
+
+function isPlainObject(value: any): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+function isGeoPoint(value: any): boolean {
+  if (typeof value === "string") {
+    return true;
+  }
+  const [lon, lat] = Array.isArray(value)
+    ? value
+    : isPlainObject(value)
+    ? [value.lon, value.lat]
+    : [];
+  return (
+    typeof lat === "number" &&
+    typeof lon === "number" &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180
+  );
+}
+
+// Returns the expected kind of value when `value` does not match `type`
+function typeMismatch(type: FieldType, value: any): string | undefined {
+  if (INTEGER_TYPES.includes(type)) {
+    return Number.isInteger(value) ? undefined : "an integer";
+  }
+  if (NUMBER_TYPES.includes(type)) {
+    return typeof value === "number" && Number.isFinite(value)
+      ? undefined
+      : "a number";
+  }
+  if (STRING_TYPES.includes(type)) {
+    return typeof value === "string" ? undefined : "a string";
+  }
+
+  switch (type) {
+    case "boolean":
+      return typeof value === "boolean" ? undefined : "a boolean";
+    case "date":
+      if (value instanceof Date) {
+        return isNaN(value.getTime()) ? "a valid date" : undefined;
+      }
+      return typeof value === "number" ||
+        (typeof value === "string" && !isNaN(Date.parse(value)))
+        ? undefined
+        : "a Date, an ISO date string or epoch milliseconds";
+    case "geo_point":
+      return isGeoPoint(value) ? undefined : "a {lat, lon} point";
+    case "object":
+    case "nested":
+      return isPlainObject(value) ? undefined : "an object";
+    default:
+      return undefined;
+  }
+}
+
+// Built-in rules from @Field options, checked against a single value
+function ruleFailure(
+  options: FieldOptions,
+  value: any
+): [ValidationRule, string] | undefined {
+  if (typeof value === "number") {
+    if (options.min !== undefined && value < options.min) {
+      return ["min", `must be at least ${options.min}`];
+    }
+    if (options.max !== undefined && value > options.max) {
+      return ["max", `must be at most ${options.max}`];
+    }
+  }
+  if (typeof value === "string") {
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      return ["minLength", `must be at least ${options.minLength} characters`];
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      return ["maxLength", `must be at most ${options.maxLength} characters`];
+    }
+    if (
+      options.pattern !== undefined &&
+      !new RegExp(options.pattern).test(value)
+    ) {
+      return ["pattern", `must match ${options.pattern}`];
+    }
+  }
+  if (options.enum !== undefined && !options.enum.includes(value)) {
+    return [
+      "enum",
+      `must be one of ${options.enum
+        .map((allowed) => JSON.stringify(allowed))
+        .join(", ")}`,
+    ];
+  }
+  return undefined;
+}
+
+// Returns the failure message for a validator result, or undefined when it passed
+export function failureMessage(
+  result: ValidatorResult,
+  fallback: string
+): string | undefined {
+  if (result === false) {
+    return fallback;
+  }
+  if (typeof result === "string") {
+    return result || fallback;
+  }
+  if (typeof result === "object" && result !== null && !result.valid) {
+    return result.message || fallback;
+  }
+  return undefined;
+}
+
+async function validateValue(
+  path: string,
+  value: any,
+  options: FieldOptions,
+  context: ValidationContext
+): Promise<void> {
+  // Every field may hold an array of values, geo_point [lon, lat] pairs aside
+  if (
+    Array.isArray(value) &&
+    !(options.type === "geo_point" && isGeoPoint(value))
+  ) {
+    for (const [i, element] of value.entries()) {
+      await validateValue(`${path}[${i}]`, element, options, context);
+    }
+    return;
+  }
+  if (value === null) {
+    return;
+  }
+
+  const expected = typeMismatch(options.type, value);
+  if (expected) {
+    context.errors.push({
+      path,
+      rule: "type",
+      value,
+      message: `Field "${path}" must be ${expected}`,
+    });
+    return;
+  }
+
+  const failure = ruleFailure(options, value);
+  if (failure) {
+    context.errors.push({
+      path,
+      rule: failure[0],
+      value,
+      message: `Field "${path}" ${failure[1]}`,
+    });
+    return;
+  }
+
+  if (options.properties && isPlainObject(value)) {
+    await validateProperties(value, options.properties, context, `${path}.`);
+  }
+}
+
+async function validateProperties(
+  doc: any,
+  properties: Record<string, FieldOptions>,
+  context: ValidationContext,
+  prefix: string
+): Promise<void> {
+  for (const [propertyName, options] of Object.entries(properties)) {
+    const path = `${prefix}${propertyName}`;
+    const value = doc[propertyName];
+
+    if (value === undefined) {
+      if (options.required && !context.partial) {
+        context.errors.push({
+          path,
+          rule: "required",
+          value,
+          message: `Required field "${path}" is missing`,
+        });
+      }
+      continue;
+    }
+
+    // Custom validators only run once the value itself is valid
+    const count = context.errors.length;
+    await validateValue(path, value, options, context);
+    if (context.errors.length > count || !options.validate) {
+      continue;
+    }
+
+    const message = failureMessage(
+      await options.validate(value, context.root),
+      `Validation failed for field "${path}"`
+    );
+    if (message) {
+      context.errors.push({ path, rule: "validate", value, message });
+    }
+  }
+}
+
+export async function collectValidationErrors(
+  doc: any,
+  metadata: IndexMetadata,
+  partial: boolean = false
+): Promise<ValidationFailure[]> {
+  const context: ValidationContext = { root: doc, errors: [], partial };
+  await validateProperties(doc, metadata.properties, context, "");
+
+  // Cross-field rules can rely on every field being valid and present
+  if (context.errors.length > 0 || partial) {
+    return context.errors;
+  }
+  for (const validator of metadata.validators || []) {
+    const result = await validator(doc);
+    const message = failureMessage(result, "Validation failed for document");
+    if (message) {
+      const path = (typeof result === "object" && result?.path) || "";
+      context.errors.push({
+        path,
+        rule: "document",
+        value: path ? doc[path] : undefined,
+        message,
+      });
+    }
+  }
+  return context.errors;
+}
+
+export async function validateDocument(
+  doc: any,
+  metadata: IndexMetadata,
+  partial: boolean = false
+): Promise<void> {
+  const errors = await collectValidationErrors(doc, metadata, partial);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+}